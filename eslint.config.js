@@ -13,6 +13,11 @@ const config = [
 			},
 		},
 	},
+	{
+		rules: {
+			'react-hooks/exhaustive-deps': ['warn', { additionalHooks: '(useIsomorphicLayoutEffect)' }],
+		},
+	},
 ];
 
 export default config;
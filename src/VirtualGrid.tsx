@@ -0,0 +1,36 @@
+import { forwardRef } from 'react';
+
+import VirtualList, { type THandle, type TProps as TVirtualListProps } from './VirtualList.tsx';
+import type { TItemProps } from './VirtualListItem.tsx';
+
+export type TProps<P extends TItemProps> = Omit<TVirtualListProps<P>, 'columnCount' | 'minColumnWidth'> & (
+	| {
+		/**
+		 * A fixed number of columns.
+		 */
+		columnCount: number;
+		minColumnWidth?: undefined;
+	}
+	| {
+		/**
+		 * The minimal width of a single column.
+		 * The grid renders as many columns as can fit in its width and reflows them on resize.
+		 */
+		minColumnWidth: number;
+		columnCount?: undefined;
+	}
+);
+
+/**
+ * A `VirtualList` that lays its items out in rows of multiple columns.
+ *
+ * Every item is still measured and cached on its own, while the height of a row is the height of its tallest item.
+ * Only the visible rows are rendered.
+ */
+function VirtualGrid<P extends TItemProps>(props: TProps<P>, ref: React.ForwardedRef<THandle<P['data']>>) {
+	return <VirtualList {...props} ref={ref} />;
+}
+
+export default forwardRef(VirtualGrid) as <P extends TItemProps>(
+	props: TProps<P> & React.RefAttributes<THandle<P['data']>>,
+) => React.ReactNode;
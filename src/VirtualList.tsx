@@ -1,63 +1,39 @@
-import {
-	memo,
-	useCallback,
-	useEffect,
-	useLayoutEffect,
-	useRef,
-	useState,
-} from 'react';
+import { forwardRef, memo, useImperativeHandle } from 'react';
 import { shallowEqualObjects } from 'shallow-equal';
 
+import useSelection, { type TSelectionOptions } from './useSelection.ts';
+import useVirtualList, {
+	type TData,
+	type THandle as TListHandle,
+	type TOptions,
+} from './useVirtualList.ts';
 import VirtualListItem, { type TItemProps, type TItemSharedProps } from './VirtualListItem.tsx';
 
-export type TID = string | number;
-export type TData = {
-	id: TID;
-	[key: PropertyKey]: unknown;
-};
-
-export type TWindowEdges = {
-	top: number;
-	bottom: number;
-	rawTop: number;
-	rawBottom: number;
-	listHeight: number;
-	isInView: boolean;
+export type {
+	TData,
+	TEstimatedItemHeight,
+	TID,
+	TOrientation,
+	TScrollAlign,
+	TScrollElement,
+	TScrollToOptions,
+	TSnapshot,
+	TWindowEdges,
+} from './useVirtualList.ts';
+
+export type THandle<D extends TData = TData> = TListHandle<D> & {
+	/**
+	 * Selects all of the items, in the `multiple` selection mode.
+	 */
+	selectAll: () => void;
+	clearSelection: () => void;
 };
 
-export type TProps<P extends TItemProps> = {
+export type TProps<P extends TItemProps> = TOptions<P['data']> & Omit<TSelectionOptions<P['data']>, 'items'> & {
 	/**
 	 * Your component that is used to render a single list item.
 	 */
 	component: React.ComponentType<P>;
-	/**
-	 * An array of actual data mapped to all children.
-	 */
-	items: Array<P['data']>;
-	/**
-	 * The estimated height of a single rendered item.
-	 *
-	 * In a best-case scenario, the same as actual item height.
-	 *
-	 * Every item has its dimensions that are being used to calculate the height of a whole list.
-	 * Thanks to that, the browser can allocate necessary space and display the scrollbars.
-	 * It creates an illusion that all elements are present and visible at the same time.
-	 *
-	 * But how can we know the dimensions of an actual item before the initial render?
-	 * Well, we don't. That's where `estimatedItemHeight` kicks in.
-	 * We use a placeholder to compute all necessary values, then
-	 * when the actual items are rendered, we measure them and repeats all calculations.
-	 */
-	estimatedItemHeight: number;
-	/**
-	 * This value increases the overall viewport area.
-	 * Defines how many pixels *beyond the horizon* should be overscaned.
-	 *
-	 * In other words, this is a value that allows you to render more elements than can be actually seen on the screen.
-	 *
-	 * Defaults to `20`.
-	 */
-	overscanPadding?: number;
 	/**
 	 * Custom CSS classname attached to a `VirtualList` root element.
 	 */
@@ -67,296 +43,131 @@ export type TProps<P extends TItemProps> = {
 	 */
 	sharedProps?: TItemSharedProps<P>;
 	/**
-	 * An advanced prop that can be used to overwrite the initial `VirtualList` state.
-	 *
-	 * Proceed with caution.
+	 * Custom CSS styles attached to a `VirtualList` root element.
 	 */
-	initState?: Partial<TState>;
+	style?: React.CSSProperties | undefined;
 	/**
-	 * Disables the item measurements and sets `estimatedItemHeight` as an actual element height.
-	 *
-	 * Useful when your list consists of items with equal heights.
+	 * Rendered right after the list while the promise returned by `onEndReached` is pending.
 	 */
-	disableMeasurment?: boolean;
+	loader?: React.ReactNode;
 	/**
-	 * Function invoked at the scroll event.
+	 * The ARIA role of the root element.
 	 *
-	 * Keep this function as performant as possible.
+	 * The items get the matching role (`listitem`, `option`, `article` or `treeitem`) along with `aria-setsize`
+	 * and `aria-posinset`, so the assistive technologies know the actual list size,
+	 * even though only a part of it is rendered.
+	 * The root is marked as `aria-busy` while the `onStartReached` or `onEndReached` promise is pending.
 	 */
-	onScroll?: (windowEdges: TWindowEdges) => void;
-	/**
-	 * Custom CSS styles attached to a `VirtualList` root element.
-	 */
-	style?: React.CSSProperties | undefined;
-};
-
-type TState = {
-	items: TData[];
-	estimatedItemHeight: number;
-	overscanPadding: number;
-	heightCache: Record<TID, number>;
-	isInView: boolean;
-	nailPoints: number[];
-	listHeight: number;
-	firstIndex: number;
-	lastIndex: number;
-};
-
-const getWindowEdges = (rawTop: number, listHeight: number, overscanPadding: number): TWindowEdges => {
-	const rawBottom = rawTop + window.innerHeight;
-
-	const bottom = Math.max(0, Math.min(rawBottom + overscanPadding, listHeight));
-	const top = Math.max(0, Math.min(rawTop - overscanPadding, bottom));
-	const isInView = bottom !== top;
-
-	return {
-		isInView,
-		top,
-		bottom,
-		rawTop,
-		rawBottom,
-		listHeight,
-	};
-};
-
-const getVisibleIndexes = (
-	pivot: number,
-	edges: TWindowEdges,
-	nailPoints: number[],
-	items: TData[],
-	getHeight: (id: TID) => number,
-) => {
-	const { isInView } = edges;
-	if (!isInView) return { isInView };
-
-	let firstIndex = NaN;
-	let lastIndex = NaN;
-
-	const isIndexVisible = (i: number) => {
-		const nP = nailPoints[i];
-		const height = getHeight(items[i].id);
-		const isStillNotFound = Number.isNaN(firstIndex);
-
-		const isVisible = edges.top <= nP + height && nP <= edges.bottom;
-		if (!isVisible) return isStillNotFound; // if not visible but found index in a scan before - break the loop
-
-		if (isStillNotFound || i < firstIndex) firstIndex = i;
-		if (isStillNotFound || i > lastIndex) lastIndex = i;
-
-		return true; // `i` visible, check next one
-	};
-	for (let i = pivot; i >= 0 && isIndexVisible(i); i--) { /* empty */ }
-	for (let i = pivot + 1; i < items.length && isIndexVisible(i); i++) { /* empty */ }
-
-	return { isInView, firstIndex, lastIndex };
-};
-
-const rebuildNailPoints = (
-	start: number,
-	prevNailPoints: number[],
-	items: TData[],
-	getHeight: (id: TID) => number,
-) => {
-	if (items.length === 0) return { nailPoints: [], listHeight: 0 };
-
-	const nailPoints = (prevNailPoints.length > 0) ? prevNailPoints.slice(0, start + 1) : [0];
-	for (let i = clampIntoArrRange(nailPoints, start); i < items.length - 1; i++) {
-		const nailPoint = nailPoints[i];
-		const height = getHeight(items[i].id);
-
-		nailPoints.push(nailPoint + height);
-	}
-
-	const last = items.length - 1;
-	const listHeight = nailPoints[last] + getHeight(items[last].id);
-
-	return { nailPoints, listHeight };
-};
-
-const getPivotIndex = (first: number, last: number, items: TData[], heightCache: Record<TID, number>, offset = 0) => {
-	if (items.length === 0) return 0;
-
-	let index = first;
-	for (let i = first + offset; i <= last; i++) {
-		if (heightCache[items[i].id]) {
-			index = i;
-			break;
-		}
-	}
-
-	return index;
+	role?: 'list' | 'listbox' | 'feed' | 'tree';
 };
 
-const clampIntoArrRange = (arr: unknown[], value: number) => Math.max(0, Math.min(value, arr.length - 1));
+const ITEM_ROLES = {
+	list: 'listitem',
+	listbox: 'option',
+	feed: 'article',
+	tree: 'treeitem',
+} as const;
 
 function VirtualList<P extends TItemProps>({
 	component,
-	items,
-	estimatedItemHeight,
-	overscanPadding = 20,
 	className,
 	sharedProps,
-	initState,
-	disableMeasurment,
-	onScroll,
 	style,
-}: TProps<P>) {
-	const rootElRef = useRef<HTMLDivElement>(null);
-	const [state, setState] = useState<TState>(() => ({
-		items,
-		estimatedItemHeight,
-		overscanPadding,
-		heightCache: {},
-		isInView: items.length > 0,
-		nailPoints: items.map((_data, i) => i * estimatedItemHeight),
-		listHeight: items.length * estimatedItemHeight,
-		firstIndex: 0,
-		lastIndex: 0,
-		...initState,
-	}));
-	const pendingState = useRef<TState>(state);
-	const setBothStates = useCallback((nextState: TState) => {
-		pendingState.current = nextState;
-		setState(nextState);
-	}, []);
-
-	const pendingScrollTop = useRef<number | null>(null);
-	const getScrollTop = useCallback(() => pendingScrollTop.current ?? document.documentElement.scrollTop, []);
-	const getRawTop = useCallback(() => getScrollTop() - (rootElRef.current?.offsetTop ?? 0), [getScrollTop]);
-
-	const handleItemMeasure = useCallback((entryIndex: number, entryHeight: number) => {
-		const s = pendingState.current;
-		const entryID = s.items[entryIndex].id;
-		if (s.heightCache[entryID] === entryHeight) return;
-
-		const heightCache = { ...s.heightCache, [entryID]: entryHeight };
-		const getFreshHeight = (id: TID) => heightCache[id] ?? s.estimatedItemHeight;
-
-		const { nailPoints, listHeight } = rebuildNailPoints(entryIndex, s.nailPoints, s.items, getFreshHeight);
-
-		const offset = entryIndex === s.firstIndex ? 1 : 0;
-		const pivotIndex = getPivotIndex(s.firstIndex, s.lastIndex, s.items, s.heightCache, offset);
-		const isChangingAbovePivot = (entryIndex < pivotIndex || s.lastIndex <= pivotIndex);
-		const isListShrinking = listHeight < s.listHeight;
-
-		if (isChangingAbovePivot || isListShrinking) {
-			const getHeight = (id: TID) => s.heightCache[id] ?? s.estimatedItemHeight;
-			const pivotHeightDiff = getHeight(s.items[pivotIndex].id) - getFreshHeight(s.items[pivotIndex].id);
-			const pivotNailPointDiff = s.nailPoints[pivotIndex] - nailPoints[pivotIndex];
-
-			// Offset the difference to prevent the content from jumping around.
-			pendingScrollTop.current = getScrollTop() - (pivotNailPointDiff + pivotHeightDiff);
-		}
-
-		const edges = getWindowEdges(getRawTop(), listHeight, s.overscanPadding);
-		const indexes = getVisibleIndexes(pivotIndex, edges, nailPoints, s.items, getFreshHeight);
-
-		setBothStates({ ...s, heightCache, nailPoints, listHeight, ...indexes });
-	}, [getScrollTop, getRawTop, setBothStates]);
-
-	const handleWindowChange = useCallback(() => {
-		const s = pendingState.current;
-		if (!s.items[0]) return;
-
-		const edges = getWindowEdges(getRawTop(), s.listHeight, s.overscanPadding);
-		onScroll?.(edges);
-
-		const getHeight = (id: TID) => s.heightCache[id] ?? s.estimatedItemHeight;
-		const indexes = getVisibleIndexes(s.firstIndex, edges, s.nailPoints, s.items, getHeight);
-
-		const nextState = { ...s, ...indexes };
-		if (shallowEqualObjects(pendingState.current, nextState)) return;
-
-		setBothStates(nextState);
-	}, [getRawTop, onScroll, setBothStates]);
-
-	// Recalculate the state once the DOM has been rendered
-	useEffect(handleWindowChange, []); // eslint-disable-line react-hooks/exhaustive-deps
-
-	useEffect(() => {
-		document.addEventListener('scroll', handleWindowChange);
-		window.addEventListener('resize', handleWindowChange);
-
-		return () => {
-			document.removeEventListener('scroll', handleWindowChange);
-			window.removeEventListener('resize', handleWindowChange);
-		};
-	}, [handleWindowChange]);
-
-	useLayoutEffect(() => {
-		if (pendingScrollTop.current === null) return;
-
-		document.documentElement.scrollTop = pendingScrollTop.current;
-		pendingScrollTop.current = null;
-	}, [state.listHeight]);
-
-	if (
-		items !== state.items
-		|| estimatedItemHeight !== state.estimatedItemHeight
-		|| overscanPadding !== state.overscanPadding
-	) {
-		const getFreshHeight = (id: TID) => state.heightCache[id] ?? estimatedItemHeight;
-
-		const firstIndex = clampIntoArrRange(items, state.firstIndex);
-		const lastIndex = clampIntoArrRange(items, state.lastIndex);
-		const pivotIndex = getPivotIndex(firstIndex, lastIndex, items, state.heightCache);
-		const { nailPoints, listHeight } = rebuildNailPoints(0, state.nailPoints, items, getFreshHeight);
-		const edges = getWindowEdges(getRawTop(), listHeight, overscanPadding); // eslint-disable-line react-hooks/refs
-		const indexes = getVisibleIndexes(pivotIndex, edges, nailPoints, items, getFreshHeight);
-
-		// eslint-disable-next-line react-hooks/refs
-		setBothStates({
-			...state,
-			items,
-			estimatedItemHeight,
-			overscanPadding,
-			nailPoints,
-			listHeight,
-			firstIndex,
-			lastIndex,
-			...indexes,
-		});
-		return null;
-	}
+	loader,
+	role,
+	selectionMode,
+	selectedIds,
+	defaultSelectedIds,
+	onSelectionChange,
+	...options
+}: TProps<P>, ref: React.ForwardedRef<THandle<P['data']>>) {
+	const {
+		rootRef,
+		virtualItems,
+		totalSize,
+		columnCount,
+		pendingLoads,
+		navigationProps,
+		dragHandlers,
+		measureRef,
+		handle,
+	} = useVirtualList(options);
+	const {
+		isSelected,
+		select,
+		selectAll,
+		clearSelection,
+	} = useSelection({
+		items: options.items,
+		selectionMode,
+		selectedIds,
+		defaultSelectedIds,
+		onSelectionChange,
+	});
+	useImperativeHandle(ref, () => ({ ...handle, selectAll, clearSelection }), [handle, selectAll, clearSelection]);
+
+	const {
+		orientation = 'vertical',
+		disableMeasurment = false,
+		keyboardNavigation,
+		onReorder,
+	} = options;
+	const [size, crossSize] = orientation === 'horizontal' ? ['width', 'height'] : ['height', 'width'];
+	// Roving `tabIndex`, so only the active item can be reached with the Tab key
+	const getTabIndex = (isActive: boolean) => (isActive ? 0 : -1);
 
 	return (
-		<div
-			ref={rootElRef}
-			className={className}
-			style={{
-				position: 'relative',
-				contain: 'strict',
-				width: '100%',
-				...style,
-				height: state.listHeight,
-			}}
-		>
-			{state.isInView && items.slice(state.firstIndex, state.lastIndex + 1).map((itemData, i) => {
-				const index = state.firstIndex + i;
-
-				return (
+		<>
+			<div
+				ref={rootRef}
+				className={className}
+				{...(keyboardNavigation && navigationProps)}
+				role={role}
+				aria-busy={role && (pendingLoads.start || pendingLoads.end)}
+				style={{
+					position: 'relative',
+					contain: 'strict',
+					[crossSize]: '100%',
+					...style,
+					[size]: totalSize,
+				}}
+			>
+				{virtualItems.map(item => (
 					<VirtualListItem
-						key={itemData.id}
-						itemIndex={index}
+						key={item.data.id}
+						itemIndex={item.index}
 						component={component}
-						itemData={itemData}
-						isAlreadyMeasured={!!state.heightCache[itemData.id]}
-						nailPoint={state.nailPoints[index]}
+						itemData={item.data}
+						isAlreadyMeasured={item.isMeasured}
+						nailPoint={item.offset}
+						columnIndex={item.columnIndex}
+						columnCount={columnCount}
+						isSticky={item.isSticky}
+						role={role && !item.isExiting ? ITEM_ROLES[role] : undefined}
+						setSize={role && options.items.length}
+						isSelected={selectionMode && isSelected(item.data.id)}
+						onSelect={selectionMode && select}
+						isDragging={item.isDragging}
+						onDragPointerDown={onReorder && dragHandlers.onPointerDown}
+						onDragKeyDown={onReorder && dragHandlers.onKeyDown}
+						tabIndex={keyboardNavigation ? getTabIndex(item.isActive) : undefined}
 						sharedProps={sharedProps}
-						onMeasure={handleItemMeasure}
-						isMeasurmentDisabled={disableMeasurment}
+						measureRef={disableMeasurment || item.isExiting ? undefined : measureRef(item.index)}
+						orientation={orientation}
 					/>
-				);
-			})}
-		</div>
+				))}
+			</div>
+			{pendingLoads.end && loader}
+		</>
 	);
 };
 
-export default memo(VirtualList, (prev, next) => {
-	// `initState` is used only at the component init, so it shouldn't rerender the list
-	const { initState: a, sharedProps: SP, ...prevRest } = prev;
-	const { initState: b, sharedProps: nextSP, ...nextRest } = next;
+export default memo(forwardRef(VirtualList), (prev, next) => {
+	// `initState` and `initialSnapshot` are used only at the component init,
+	// so they shouldn't rerender the list
+	const { initState: a, initialSnapshot: c, sharedProps: SP, ...prevRest } = prev;
+	const { initState: b, initialSnapshot: d, sharedProps: nextSP, ...nextRest } = next;
 
 	if (!shallowEqualObjects(SP, nextSP) || !shallowEqualObjects(prevRest, nextRest)) return false;
 	return true;
-}) as typeof VirtualList;
+}) as <P extends TItemProps>(props: TProps<P> & React.RefAttributes<THandle<P['data']>>) => React.ReactNode;
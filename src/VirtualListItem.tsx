@@ -1,31 +1,41 @@
-import {
-	memo,
-	useCallback,
-	useEffect,
-	useRef,
-} from 'react';
-import {
-	unstable_cancelCallback as cancelCallback,
-	unstable_LowPriority as LowPriority,
-	unstable_scheduleCallback as scheduleCallback,
-	unstable_UserBlockingPriority as UserBlockingPriority,
-} from 'scheduler';
+import { memo, useCallback, useMemo } from 'react';
 import { shallowEqualObjects } from 'shallow-equal';
 
-import type { TData } from './VirtualList.tsx';
+import type { TSelectModifiers } from './useSelection.ts';
+import type { TData, TOrientation } from './useVirtualList.ts';
 
 export type TItemProps<D extends TData = TData> = {
 	data: D;
 	isAlreadyMeasured: boolean;
+	/** Set when the list has a `selectionMode` */
+	isSelected?: boolean;
+	/** Selects the item, e.g. `onClick={onSelect}`. Set when the list has a `selectionMode` */
+	onSelect?: (modifiers?: TSelectModifiers) => void;
+	/** Set when the list has `onReorder` */
+	isDragging?: boolean;
+	/** Starts the drag, e.g. `<button {...dragHandleProps} />`. Set when the list has `onReorder` */
+	dragHandleProps?: {
+		onPointerDown: (event: React.PointerEvent) => void;
+		onKeyDown: (event: React.KeyboardEvent) => void;
+	};
 	rootElProps: {
 		ref: React.Ref<any>; // eslint-disable-line @typescript-eslint/no-explicit-any
 		'data-index': number;
 		'data-measured': boolean;
+		tabIndex?: number;
+		role?: string;
+		'aria-setsize'?: number;
+		'aria-posinset'?: number;
+		'aria-selected'?: boolean;
+		'aria-level'?: number;
+		'aria-expanded'?: boolean;
 		style: {
 			position: 'absolute';
-			width: '100%';
+			width?: string;
+			height?: string;
 			transform: string;
 			contain: 'content';
+			zIndex?: number;
 		};
 	};
 };
@@ -38,8 +48,20 @@ export type TProps<P extends TItemProps> = {
 	nailPoint: number;
 	sharedProps?: TItemSharedProps<P>;
 	isAlreadyMeasured: boolean;
-	isMeasurmentDisabled?: boolean;
-	onMeasure: (index: number, height: number) => void;
+	/** The `measureRef` of the list for the item index, unset when the item isn't measured */
+	measureRef?: (element: HTMLElement | null) => void;
+	orientation?: TOrientation;
+	columnIndex?: number;
+	columnCount?: number;
+	isSticky?: boolean;
+	tabIndex?: number;
+	role?: string;
+	setSize?: number;
+	isSelected?: boolean;
+	onSelect?: (index: number, modifiers?: TSelectModifiers) => void;
+	isDragging?: boolean;
+	onDragPointerDown?: (index: number, event: React.PointerEvent) => void;
+	onDragKeyDown?: (index: number, event: React.KeyboardEvent) => void;
 };
 
 function VirtualListItem<P extends TItemProps>({
@@ -49,39 +71,39 @@ function VirtualListItem<P extends TItemProps>({
 	nailPoint,
 	sharedProps,
 	isAlreadyMeasured,
-	isMeasurmentDisabled,
-	onMeasure,
+	measureRef,
+	orientation = 'vertical',
+	columnIndex = 0,
+	columnCount = 1,
+	isSticky = false,
+	tabIndex,
+	role,
+	setSize,
+	isSelected,
+	onSelect,
+	isDragging = false,
+	onDragPointerDown,
+	onDragKeyDown,
 }: TProps<P>) {
-	const ref = useRef<HTMLElement>(null);
-	const observer = useRef<ResizeObserver | null>(null);
-
-	const handleResize = useCallback<ResizeObserverCallback>(([entry]) => {
-		const height = entry.borderBoxSize[0].blockSize;
-		if (height === 0) return;
-
-		onMeasure(itemIndex, height);
-	}, [onMeasure, itemIndex]);
-
-	useEffect(() => {
-		if (!isMeasurmentDisabled) return () => {
-			observer.current?.disconnect();
-			observer.current = null;
-		};
-	}, [isMeasurmentDisabled, handleResize]);
+	const isHorizontal = orientation === 'horizontal';
+	const handleSelect = useCallback(
+		(modifiers?: TSelectModifiers) => onSelect?.(itemIndex, modifiers),
+		[onSelect, itemIndex],
+	);
 
-	useEffect(() => {
-		if (isMeasurmentDisabled || observer.current) return;
+	const dragHandleProps = useMemo(() => onDragPointerDown && onDragKeyDown && {
+		onPointerDown: (event: React.PointerEvent) => onDragPointerDown(itemIndex, event),
+		onKeyDown: (event: React.KeyboardEvent) => onDragKeyDown(itemIndex, event),
+	}, [onDragPointerDown, onDragKeyDown, itemIndex]);
 
-		// Use lower priority for already cached items
-		const priority = isAlreadyMeasured ? LowPriority : UserBlockingPriority;
-		const node = scheduleCallback(priority, () => {
-			if (!ref.current) return;
-			observer.current = new ResizeObserver(handleResize);
-			observer.current.observe(ref.current);
-		});
+	const isGridCell = columnCount > 1;
+	const crossSize = isGridCell ? `${100 / columnCount}%` : '100%';
 
-		return () => cancelCallback(node);
-	}, [isMeasurmentDisabled, isAlreadyMeasured, handleResize]);
+	// Grid cells are moved across the list by a multiple of their own size
+	const crossOffset = `${columnIndex * 100}%`;
+	let transform = `${isHorizontal ? 'translateX' : 'translateY'}(${nailPoint}px)`;
+	if (isGridCell && isHorizontal) transform = `translate(${nailPoint}px, ${crossOffset})`;
+	if (isGridCell && !isHorizontal) transform = `translate(${crossOffset}, ${nailPoint}px)`;
 
 	const Item = component as React.ComponentType<TItemProps>;
 	return (
@@ -89,15 +111,21 @@ function VirtualListItem<P extends TItemProps>({
 			{...sharedProps}
 			data={itemData}
 			isAlreadyMeasured={isAlreadyMeasured}
+			{...(onSelect && { isSelected, onSelect: handleSelect })}
+			{...(dragHandleProps && { isDragging, dragHandleProps })}
 			rootElProps={{
-				ref,
+				ref: measureRef ?? null,
 				'data-index': itemIndex,
 				'data-measured': isAlreadyMeasured,
+				...(tabIndex !== undefined && { tabIndex }),
+				...(role && { role, 'aria-setsize': setSize, 'aria-posinset': itemIndex + 1 }),
+				...(role === 'option' && onSelect && { 'aria-selected': isSelected }),
 				style: {
 					position: 'absolute',
-					width: '100%',
-					transform: `translateY(${nailPoint}px)`,
+					...(isHorizontal ? { height: crossSize } : { width: crossSize }),
+					transform,
 					contain: 'content',
+					...((isSticky || isDragging) && { zIndex: 1 }),
 				},
 			}}
 		/>
@@ -0,0 +1,303 @@
+import {
+	forwardRef,
+	memo,
+	useCallback,
+	useEffect,
+	useImperativeHandle,
+	useMemo,
+	useRef,
+	useState,
+} from 'react';
+
+import useVirtualList, {
+	resolveScrollElement,
+	type TData,
+	type THandle,
+	type TOptions,
+	useIsomorphicLayoutEffect,
+} from './useVirtualList.ts';
+
+export type TTableColumn<D extends TData = TData> = {
+	/**
+	 * A unique key of the column.
+	 */
+	key: string;
+	/**
+	 * Content of the header cell.
+	 */
+	header: React.ReactNode;
+	/**
+	 * A fixed width of the column. When omitted, the width is measured from the header cell.
+	 */
+	width?: number;
+	/**
+	 * Renders the content of the cell in the given row.
+	 */
+	cell: (data: D, rowIndex: number) => React.ReactNode;
+};
+
+export type TProps<D extends TData> = Omit<
+	TOptions<D>,
+	| 'orientation'
+	| 'columnCount'
+	| 'minColumnWidth'
+	| 'isStickyHeader'
+	| 'keyboardNavigation'
+	| 'onReorder'
+	| 'animateChanges'
+	| 'scrollPaddingStart'
+> & {
+	/**
+	 * The columns of the table. Memoize the array, as every change rerenders all of the rows.
+	 */
+	columns: Array<TTableColumn<D>>;
+	/**
+	 * Renders only the columns visible within the scroll element width.
+	 */
+	virtualizeColumns?: boolean;
+	/**
+	 * The width of the columns that are neither fixed nor measured yet.
+	 */
+	estimatedColumnWidth?: number;
+	/**
+	 * Custom CSS classname attached to the table root element.
+	 */
+	className?: string;
+	/**
+	 * Custom CSS styles attached to the table root element.
+	 */
+	style?: React.CSSProperties | undefined;
+};
+
+type TColumnRange = {
+	first: number;
+	last: number;
+};
+
+type TRowProps<D extends TData> = {
+	data: D;
+	index: number;
+	offset: number;
+	columns: Array<TTableColumn<D>>;
+	widths: number[];
+	offsets: number[];
+	totalWidth: number;
+	firstColumn: number;
+	lastColumn: number;
+	rowRef?: React.Ref<HTMLDivElement>;
+};
+
+/** Number of the extra columns rendered on both sides of the visible ones */
+const COLUMN_OVERSCAN = 1;
+
+const getColumnRange = (offsets: number[], widths: number[], start: number, end: number): TColumnRange => {
+	const lastIndex = widths.length - 1;
+
+	let first = 0;
+	while (first < lastIndex && offsets[first] + widths[first] < start) first++;
+	let last = first;
+	while (last < lastIndex && offsets[last + 1] <= end) last++;
+
+	return { first: Math.max(0, first - COLUMN_OVERSCAN), last: Math.min(lastIndex, last + COLUMN_OVERSCAN) };
+};
+
+function TableRow<D extends TData>({
+	data,
+	index,
+	offset,
+	columns,
+	widths,
+	offsets,
+	totalWidth,
+	firstColumn,
+	lastColumn,
+	rowRef,
+}: TRowProps<D>) {
+	return (
+		<div
+			ref={rowRef}
+			role="row"
+			aria-rowindex={index + 2}
+			data-index={index}
+			style={{
+				position: 'absolute',
+				display: 'flex',
+				width: totalWidth,
+				transform: `translateY(${offset}px)`,
+				contain: 'content',
+			}}
+		>
+			{columns.slice(firstColumn, lastColumn + 1).map((column, i) => {
+				const columnIndex = firstColumn + i;
+				return (
+					<div
+						key={column.key}
+						role="cell"
+						aria-colindex={columnIndex + 1}
+						style={{
+							flex: 'none',
+							width: widths[columnIndex],
+							// Skipped columns are replaced with the margin of the first rendered one
+							...(i === 0 && { marginLeft: offsets[columnIndex] }),
+						}}
+						children={column.cell(data, index)}
+					/>
+				);
+			})}
+		</div>
+	);
+}
+
+const MemoizedTableRow = memo(TableRow) as typeof TableRow;
+
+/**
+ * A table built on the list engine, which renders only the visible rows and optionally the visible columns.
+ *
+ * The header row sticks to the top of the scroll element, so the table should not clip its overflow.
+ * In a wide table, let the `scrollElement` scroll in both directions.
+ */
+function VirtualTable<D extends TData>({
+	columns,
+	virtualizeColumns,
+	estimatedColumnWidth = 150,
+	className,
+	style,
+	...options
+}: TProps<D>, ref: React.ForwardedRef<THandle<D>>) {
+	// The rows scrolled to are placed below the sticky header
+	const [headerHeight, setHeaderHeight] = useState(0);
+	const {
+		rootRef,
+		virtualItems,
+		totalSize,
+		measureRef,
+		handle,
+	} = useVirtualList({ ...options, scrollPaddingStart: headerHeight });
+	useImperativeHandle(ref, () => handle, [handle]);
+
+	const tableRef = useRef<HTMLDivElement>(null);
+	const headerRowRef = useRef<HTMLDivElement>(null);
+
+	const [measuredWidths, setMeasuredWidths] = useState<Partial<Record<string, number>>>({});
+	const { widths, offsets, totalWidth } = useMemo(() => {
+		const columnWidths = columns.map(column => column.width ?? measuredWidths[column.key] ?? estimatedColumnWidth);
+		const columnOffsets = columnWidths.reduce<number[]>((acc, width, i) => [...acc, acc[i] + width], [0]);
+
+		return { widths: columnWidths, offsets: columnOffsets, totalWidth: columnOffsets[columns.length] };
+	}, [columns, measuredWidths, estimatedColumnWidth]);
+
+	const [columnRange, setColumnRange] = useState<TColumnRange | null>(null);
+	const { first: firstColumn, last: lastColumn } = (virtualizeColumns ? columnRange : null)
+		?? { first: 0, last: columns.length - 1 };
+
+	const updateColumnRange = useCallback(() => {
+		const tableEl = tableRef.current;
+		if (!virtualizeColumns || !tableEl) return;
+
+		const scrollEl = resolveScrollElement(options.scrollElement);
+		const tableStart = tableEl.getBoundingClientRect().left;
+		const viewportStart = scrollEl === document.documentElement
+			? 0
+			: scrollEl.getBoundingClientRect().left + scrollEl.clientLeft;
+		const viewportWidth = scrollEl === document.documentElement ? window.innerWidth : scrollEl.clientWidth;
+
+		const start = viewportStart - tableStart;
+		const range = getColumnRange(offsets, widths, start, start + viewportWidth);
+		setColumnRange(prev => (prev?.first === range.first && prev.last === range.last ? prev : range));
+	}, [virtualizeColumns, options.scrollElement, offsets, widths]);
+
+	useIsomorphicLayoutEffect(updateColumnRange, [updateColumnRange]);
+
+	useEffect(() => {
+		if (!virtualizeColumns) return;
+
+		const scrollEl = resolveScrollElement(options.scrollElement);
+		const scrollTarget = scrollEl === document.documentElement ? document : scrollEl;
+
+		scrollTarget.addEventListener('scroll', updateColumnRange);
+		window.addEventListener('resize', updateColumnRange);
+
+		return () => {
+			scrollTarget.removeEventListener('scroll', updateColumnRange);
+			window.removeEventListener('resize', updateColumnRange);
+		};
+	}, [virtualizeColumns, options.scrollElement, updateColumnRange]);
+
+	// Measure the header cells of the columns without a fixed width, once they are rendered
+	useIsomorphicLayoutEffect(() => {
+		const headerCells = headerRowRef.current?.querySelectorAll<HTMLElement>('[data-column]') ?? [];
+		const widthsToMeasure: Record<string, number> = {};
+
+		headerCells.forEach((cell) => {
+			const key = cell.dataset.column!;
+			const column = columns.find(c => c.key === key);
+			if (!column || column.width !== undefined || key in measuredWidths) return;
+
+			widthsToMeasure[key] = cell.getBoundingClientRect().width;
+		});
+
+		if (Object.keys(widthsToMeasure).length > 0) setMeasuredWidths(prev => ({ ...prev, ...widthsToMeasure }));
+	}, [columns, firstColumn, lastColumn, measuredWidths]);
+
+	useIsomorphicLayoutEffect(() => {
+		setHeaderHeight(headerRowRef.current?.getBoundingClientRect().height ?? 0);
+	}, [columns, firstColumn, lastColumn, measuredWidths]);
+
+	const visibleColumns = columns.slice(firstColumn, lastColumn + 1);
+
+	return (
+		<div
+			ref={tableRef}
+			role="table"
+			aria-rowcount={options.items.length + 1}
+			aria-colcount={columns.length}
+			className={className}
+			style={{ width: totalWidth, ...style }}
+		>
+			<div role="rowgroup" style={{ position: 'sticky', top: 0, zIndex: 1 }}>
+				<div ref={headerRowRef} role="row" aria-rowindex={1} style={{ display: 'flex', width: totalWidth }}>
+					{visibleColumns.map((column, i) => {
+						const columnIndex = firstColumn + i;
+						const width = column.width ?? measuredWidths[column.key];
+
+						return (
+							<div
+								key={column.key}
+								role="columnheader"
+								aria-colindex={columnIndex + 1}
+								data-column={column.key}
+								style={{
+									flex: 'none',
+									...(width !== undefined && { width }),
+									...(i === 0 && { marginLeft: offsets[columnIndex] }),
+								}}
+								children={column.header}
+							/>
+						);
+					})}
+				</div>
+			</div>
+			<div ref={rootRef} role="rowgroup" style={{ position: 'relative', contain: 'strict', height: totalSize }}>
+				{virtualItems.map(item => (
+					<MemoizedTableRow
+						key={item.data.id}
+						data={item.data}
+						index={item.index}
+						offset={item.offset}
+						columns={columns}
+						widths={widths}
+						offsets={offsets}
+						totalWidth={totalWidth}
+						firstColumn={firstColumn}
+						lastColumn={lastColumn}
+						rowRef={item.isExiting || options.disableMeasurment ? undefined : measureRef(item.index)}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
+
+export default forwardRef(VirtualTable) as <D extends TData>(
+	props: TProps<D> & React.RefAttributes<THandle<D>>,
+) => React.ReactNode;
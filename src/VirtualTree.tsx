@@ -0,0 +1,286 @@
+import {
+	forwardRef,
+	useCallback,
+	useImperativeHandle,
+	useMemo,
+	useRef,
+	useState,
+} from 'react';
+
+import useLatest from './useLatest.ts';
+import type { TData, TID } from './useVirtualList.ts';
+import VirtualList, {
+	type TEstimatedItemHeight,
+	type THandle,
+	type TProps as TVirtualListProps,
+} from './VirtualList.tsx';
+import type { TItemProps } from './VirtualListItem.tsx';
+
+export type TTreeData = TData & {
+	children?: TTreeData[];
+};
+
+export type TTreeItemProps<D extends TTreeData = TTreeData> = TItemProps<D> & {
+	/** The nesting level of the node, `0` for the root nodes */
+	depth: number;
+	isExpanded: boolean;
+	hasChildren: boolean;
+	/** Expands or collapses the node, e.g. `onClick={onToggle}` */
+	onToggle: () => void;
+};
+export type TTreeItemSharedProps<P> = Omit<P, keyof TTreeItemProps | 'children'>;
+
+export type TProps<P extends TTreeItemProps> = Omit<
+	TVirtualListProps<TItemProps<P['data']>>,
+	'items' | 'component' | 'sharedProps' | 'initState' | 'columnCount' | 'minColumnWidth' | 'onReorder'
+> & {
+	/**
+	 * The root nodes of the tree. Every node may have its own `children`.
+	 */
+	nodes: Array<P['data']>;
+	/**
+	 * Your component that is used to render a single node.
+	 */
+	component: React.ComponentType<P>;
+	/**
+	 * Props passed to every rendered node.
+	 */
+	sharedProps?: TTreeItemSharedProps<P>;
+	/**
+	 * The `id`s of the expanded nodes, which makes the expanded state controlled.
+	 */
+	expandedIds?: TID[];
+	/**
+	 * The `id`s of the initially expanded nodes, when the expanded state is uncontrolled.
+	 */
+	defaultExpandedIds?: TID[];
+	/**
+	 * Function invoked with the `id`s of the expanded nodes, every time a node is toggled.
+	 */
+	onExpandedChange?: (expandedIds: TID[]) => void;
+};
+
+/**
+ * A single visible node, flattened into the list sequence.
+ */
+type TFlatNode<D extends TTreeData = TTreeData> = {
+	id: TID;
+	node: D;
+	depth: number;
+	isExpanded: boolean;
+	hasChildren: boolean;
+	/** The position of the node among its siblings, starting from `1` */
+	posInSet: number;
+	/** The number of the node siblings, including the node itself */
+	setSize: number;
+};
+
+type TFlatTree<D extends TTreeData> = {
+	nodes: D[];
+	expandedIds: TID[];
+	items: Array<TFlatNode<D>>;
+};
+
+type TTreeItemComponentProps = TItemProps<TFlatNode> & {
+	treeComponent: React.ComponentType<TTreeItemProps>;
+	treeSharedProps?: object;
+	onToggle: (id: TID) => void;
+};
+
+const flattenNodes = <D extends TTreeData>(nodes: D[], expanded: Set<TID>, depth = 0): Array<TFlatNode<D>> => (
+	nodes.flatMap((node, index) => {
+		const flatNode = {
+			id: node.id,
+			node,
+			depth,
+			isExpanded: expanded.has(node.id),
+			hasChildren: (node.children?.length ?? 0) > 0,
+			posInSet: index + 1,
+			setSize: nodes.length,
+		};
+		if (!flatNode.isExpanded || !node.children) return [flatNode];
+
+		return [flatNode, ...flattenNodes(node.children as D[], expanded, depth + 1)];
+	})
+);
+
+/**
+ * Replaces the descendants of the toggled node, while the rest of the flattened nodes stay untouched.
+ */
+const toggleFlatNode = <D extends TTreeData>(items: Array<TFlatNode<D>>, id: TID, expanded: Set<TID>) => {
+	const index = items.findIndex(item => item.id === id);
+	if (index === -1 || items[index].isExpanded === expanded.has(id)) return items;
+
+	const flatNode = items[index];
+	let end = index + 1;
+	while (end < items.length && items[end].depth > flatNode.depth) end++;
+
+	const isExpanded = !flatNode.isExpanded;
+	const childNodes = (flatNode.node.children ?? []) as D[];
+	const children = isExpanded ? flattenNodes(childNodes, expanded, flatNode.depth + 1) : [];
+	return items.slice(0, index).concat({ ...flatNode, isExpanded }, children, items.slice(end));
+};
+
+/**
+ * Flattens the expanded nodes into the list sequence.
+ *
+ * Toggling a node splices only its descendants in or out, so the other items and their cached heights are kept.
+ */
+const useFlatTree = <D extends TTreeData>(nodes: D[], expandedIds: TID[]) => {
+	const [flatTree, setFlatTree] = useState<TFlatTree<D>>(() => ({
+		nodes,
+		expandedIds,
+		items: flattenNodes(nodes, new Set(expandedIds)),
+	}));
+	if (nodes === flatTree.nodes && expandedIds === flatTree.expandedIds) return flatTree.items;
+
+	const expanded = new Set(expandedIds);
+	let { items } = flatTree;
+	if (nodes !== flatTree.nodes) {
+		items = flattenNodes(nodes, expanded);
+	} else {
+		const prevExpanded = new Set(flatTree.expandedIds);
+		const toggledIds = [
+			...expandedIds.filter(id => !prevExpanded.has(id)),
+			...flatTree.expandedIds.filter(id => !expanded.has(id)),
+		];
+		items = toggledIds.reduce((nextItems, id) => toggleFlatNode(nextItems, id, expanded), items);
+	}
+
+	setFlatTree({ nodes, expandedIds, items });
+	return items;
+};
+
+function TreeItem({
+	data,
+	treeComponent: Component,
+	treeSharedProps,
+	onToggle,
+	rootElProps,
+	...itemProps
+}: TTreeItemComponentProps) {
+	const {
+		id,
+		node,
+		depth,
+		isExpanded,
+		hasChildren,
+		posInSet,
+		setSize,
+	} = data;
+	const handleToggle = useCallback(() => onToggle(id), [onToggle, id]);
+
+	return (
+		<Component
+			{...treeSharedProps}
+			{...itemProps}
+			data={node}
+			depth={depth}
+			isExpanded={isExpanded}
+			hasChildren={hasChildren}
+			onToggle={handleToggle}
+			rootElProps={{
+				...rootElProps,
+				// The position is counted among the node siblings, rather than among all of the flattened nodes
+				...(rootElProps.role === 'treeitem' && {
+					'aria-level': depth + 1,
+					'aria-posinset': posInSet,
+					'aria-setsize': setSize,
+				}),
+				...(rootElProps.role === 'treeitem' && hasChildren && { 'aria-expanded': isExpanded }),
+			}}
+		/>
+	);
+}
+
+/**
+ * A `VirtualList` of the hierarchical data, which renders only the expanded nodes.
+ *
+ * The nodes are cached by their `id`, so their heights survive the parent being collapsed and expanded again.
+ */
+function VirtualTree<P extends TTreeItemProps>({
+	nodes,
+	component,
+	sharedProps,
+	expandedIds: controlledIds,
+	defaultExpandedIds = [],
+	onExpandedChange,
+	estimatedItemHeight,
+	adaptiveEstimation,
+	isStickyHeader,
+	...props
+}: TProps<P>, ref: React.ForwardedRef<THandle<P['data']>>) {
+	type D = P['data'];
+
+	const [uncontrolledIds, setUncontrolledIds] = useState(defaultExpandedIds);
+	const expandedIds = controlledIds ?? uncontrolledIds;
+	const items = useFlatTree(nodes, expandedIds);
+
+	const setExpandedIds = useCallback((nextIds: TID[]) => {
+		if (!controlledIds) setUncontrolledIds(nextIds);
+		onExpandedChange?.(nextIds);
+	}, [controlledIds, onExpandedChange]);
+
+	// A stable toggle, as every tree item receives it through the shared props
+	const latest = useLatest({ expandedIds, setExpandedIds });
+	const toggle = useCallback((id: TID) => {
+		const l = latest.current;
+		l.setExpandedIds(l.expandedIds.includes(id) ? l.expandedIds.filter(i => i !== id) : [...l.expandedIds, id]);
+	}, [latest]);
+
+	const treeProps = useMemo(() => ({
+		treeComponent: component as React.ComponentType<TTreeItemProps>,
+		treeSharedProps: sharedProps,
+		onToggle: toggle,
+	}), [component, sharedProps, toggle]);
+
+	// The callbacks are given the nodes, rather than their flattened counterparts
+	const estimate = useMemo<TEstimatedItemHeight<TFlatNode<D>>>(() => (
+		typeof estimatedItemHeight === 'number'
+			? estimatedItemHeight
+			: (flatNode, index) => estimatedItemHeight(flatNode.node, index)
+	), [estimatedItemHeight]);
+	const getItemType = useMemo(() => (
+		typeof adaptiveEstimation === 'function'
+			? (flatNode: TFlatNode<D>) => adaptiveEstimation(flatNode.node)
+			: adaptiveEstimation
+	), [adaptiveEstimation]);
+	const isStickyNode = useMemo(
+		() => isStickyHeader && ((flatNode: TFlatNode<D>) => isStickyHeader(flatNode.node)),
+		[isStickyHeader],
+	);
+
+	// The handle is read lazily, as the list creates a new one whenever its options change
+	const listRef = useRef<THandle<TFlatNode<D>>>(null);
+	useImperativeHandle(ref, () => {
+		const getList = () => listRef.current!;
+		return {
+			scrollToIndex: (index, options) => getList().scrollToIndex(index, options),
+			scrollToId: (id, options) => getList().scrollToId(id, options),
+			getSnapshot: () => getList().getSnapshot(),
+			restoreSnapshot: snapshot => getList().restoreSnapshot(snapshot),
+			invalidate: target => getList().invalidate(
+				typeof target === 'function' ? flatNode => target(flatNode.node) : target,
+			),
+			selectAll: () => getList().selectAll(),
+			clearSelection: () => getList().clearSelection(),
+		};
+	}, []);
+
+	return (
+		<VirtualList<TTreeItemComponentProps>
+			{...props}
+			ref={listRef}
+			items={items}
+			component={TreeItem}
+			sharedProps={treeProps}
+			estimatedItemHeight={estimate}
+			adaptiveEstimation={getItemType}
+			isStickyHeader={isStickyNode}
+		/>
+	);
+}
+
+export default forwardRef(VirtualTree) as <P extends TTreeItemProps>(
+	props: TProps<P> & React.RefAttributes<THandle<P['data']>>,
+) => React.ReactNode;
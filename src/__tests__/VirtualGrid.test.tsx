@@ -0,0 +1,114 @@
+import {
+	act,
+	fireEvent,
+	render,
+} from '@testing-library/react';
+import { unstable_flushAll as flushAll } from 'scheduler/unstable_mock';
+import {
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import VirtualGrid, { type TProps as TVirtualGridProps } from '../VirtualGrid.tsx';
+import type { TItemProps } from '../VirtualListItem.tsx';
+
+type TItemData = {
+	id: number;
+	height: number;
+};
+type TItemComponentProps = TItemProps<TItemData>;
+type TGridProps = TVirtualGridProps<TItemComponentProps>;
+
+vi.useFakeTimers();
+
+describe('VirtualGrid', () => {
+	const estimatedItemHeight = 50;
+
+	const genItemArray = (length: number): TItemData[] => [...Array(length) as unknown[]].map((_v, index) => ({
+		id: index,
+		height: 40 + (index % 4) * 20,
+	}));
+	const triggerMeasurement = () => act(() => {
+		vi.runAllTimers();
+		flushAll();
+	});
+
+	const ItemComponent = vi.fn(({ rootElProps, data }: TItemComponentProps) => (
+		<div
+			{...rootElProps}
+			data-id={data.id}
+			data-expected-height={data.height}
+			children="GridItem"
+		/>
+	));
+	const defaultProps: TGridProps = {
+		component: ItemComponent,
+		items: genItemArray(9),
+		estimatedItemHeight,
+		overscanPadding: 0,
+		columnCount: 3,
+	};
+
+	it('should lay the items out in rows', () => {
+		const { container, getAllByText } = render(<VirtualGrid {...defaultProps} />);
+		const grid = container.firstElementChild as HTMLElement;
+		const cells = getAllByText('GridItem');
+
+		expect(grid.style.height).toBe(`${3 * estimatedItemHeight}px`);
+		expect(cells).toHaveLength(9);
+		expect(cells[0].style.transform).toBe('translate(0%, 0px)');
+		expect(cells[4].style.transform).toBe(`translate(100%, ${estimatedItemHeight}px)`);
+		expect(cells[8].style.transform).toBe(`translate(200%, ${2 * estimatedItemHeight}px)`);
+		expect(cells[8].style.width).toBe(`${100 / 3}%`);
+	});
+
+	it('should size every row by its tallest item', () => {
+		const { container, getAllByText } = render(<VirtualGrid {...defaultProps} />);
+		const grid = container.firstElementChild as HTMLElement;
+
+		triggerMeasurement();
+
+		const rowHeights = [0, 1, 2].map(row => Math.max(
+			...defaultProps.items.slice(row * 3, row * 3 + 3).map(item => item.height),
+		));
+		const cells = getAllByText('GridItem');
+
+		expect(cells.every(cell => cell.dataset.measured === 'true')).toBeTruthy();
+		expect(cells[3].style.transform).toBe(`translate(0%, ${rowHeights[0]}px)`);
+		expect(cells[6].style.transform).toBe(`translate(0%, ${rowHeights[0] + rowHeights[1]}px)`);
+		expect(grid.style.height).toBe(`${rowHeights[0] + rowHeights[1] + rowHeights[2]}px`);
+	});
+
+	it('should render only the visible rows', () => {
+		const columnCount = 4;
+		const { getAllByText } = render(
+			<VirtualGrid {...defaultProps} items={genItemArray(1000)} columnCount={columnCount} />,
+		);
+
+		const visibleRows = Math.floor(window.innerHeight / estimatedItemHeight) + 1;
+		expect(getAllByText('GridItem')).toHaveLength(visibleRows * columnCount);
+	});
+
+	it('should fit the columns into the grid width when `minColumnWidth` is set', () => {
+		let gridWidth = 400;
+		vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockImplementation(() => gridWidth);
+
+		const { container, getAllByText } = render(
+			<VirtualGrid {...defaultProps} columnCount={undefined} minColumnWidth={100} />,
+		);
+		const grid = container.firstElementChild as HTMLElement;
+
+		expect(getAllByText('GridItem')[4].style.transform).toBe(`translate(0%, ${estimatedItemHeight}px)`);
+		expect(grid.style.height).toBe(`${3 * estimatedItemHeight}px`);
+
+		gridWidth = 250;
+		fireEvent(window, new Event('resize'));
+
+		expect(getAllByText('GridItem')[4].style.transform).toBe(`translate(0%, ${2 * estimatedItemHeight}px)`);
+		expect(grid.style.height).toBe(`${5 * estimatedItemHeight}px`);
+
+		vi.restoreAllMocks();
+	});
+});
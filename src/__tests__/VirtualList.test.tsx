@@ -3,6 +3,8 @@ import {
 	fireEvent,
 	render,
 } from '@testing-library/react';
+import { createRef } from 'react';
+import { renderToString } from 'react-dom/server';
 import { unstable_flushAll as flushAll } from 'scheduler/unstable_mock';
 import {
 	describe,
@@ -11,8 +13,16 @@ import {
 	vi,
 } from 'vitest';
 
-import VirtualList, { type TProps as TVirtualListProps } from '../VirtualList.tsx';
-import VirtualListItem, { type TItemProps } from '../VirtualListItem.tsx';
+import fakeMeasurer from '../../tests/fakeMeasurer.ts';
+import { createHeightCache, type THeightCache } from '../heightCache.ts';
+import { rectMeasurer, type TMeasureListener, type TMeasurer } from '../measurer.ts';
+import VirtualList, {
+	type THandle,
+	type TID,
+	type TProps as TVirtualListProps,
+	type TSnapshot,
+} from '../VirtualList.tsx';
+import type { TItemProps } from '../VirtualListItem.tsx';
 
 type TSharedProps = {
 	title?: string;
@@ -114,6 +124,41 @@ describe('VirtualList', () => {
 		expect(estimatedListHeight).not.toEqual(expectedListHeight);
 	});
 
+	it('should measure the items with the given measurer', () => {
+		const observe = vi.fn(fakeMeasurer.observe);
+		const { container } = render(<VirtualList {...defaultProps} measurer={{ observe }} />);
+		const list = container.firstElementChild as HTMLElement;
+		triggerMeasurement();
+
+		const nailPoints = genNailPoints();
+		const measuredCount = nailPoints.findIndex(i => i >= window.innerHeight);
+		const rendered = [...list.children] as HTMLElement[];
+		expect(rendered.every(item => item.dataset.measured === 'true')).toBeTruthy();
+		expect(list.style.height).toBe(`${nailPoints[measuredCount] + (50 - measuredCount) * estimatedItemHeight}px`);
+		expect(observe).toHaveBeenCalled();
+	});
+
+	it('should measure the items with `getBoundingClientRect`', () => {
+		const getRect = vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(
+			function getExpectedRect(this: HTMLElement) {
+				return DOMRect.fromRect({ height: parseInt(this.dataset.expectedHeight ?? '0', 10) });
+			},
+		);
+		const items = defaultProps.items.slice(0, 3);
+		const props = { ...defaultProps, measurer: rectMeasurer };
+		const { container, rerender } = render(<VirtualList {...props} items={items} />);
+		const list = container.firstElementChild as HTMLElement;
+		triggerMeasurement();
+		expect(list.style.height).toBe('200px');
+
+		// Nothing observes the changes, so the items are measured again after every render
+		rerender(<VirtualList {...props} items={items.map(item => ({ ...item, height: 70 }))} />);
+		triggerMeasurement();
+		expect(list.style.height).toBe('210px');
+
+		getRect.mockRestore();
+	});
+
 	it('should handle `disableMeasurment` prop', () => {
 		const { container } = render(<VirtualList {...defaultProps} disableMeasurment />);
 		const list = container.firstElementChild as HTMLElement;
@@ -127,6 +172,50 @@ describe('VirtualList', () => {
 		expect(parseInt(list.style.height, 10)).toEqual(expectedListHeight);
 	});
 
+	it('should estimate every item on its own when `estimatedItemHeight` is a function', () => {
+		const estimate = (data: TItemData) => data.height;
+		const { container, getAllByText, rerender } = render(
+			<VirtualList {...defaultProps} estimatedItemHeight={estimate} disableMeasurment />,
+		);
+		const list = container.firstElementChild as HTMLElement;
+		const nailPoints = genNailPoints();
+		const listHeight = defaultProps.items.reduce((height, item) => height + item.height, 0);
+
+		expect(list.style.height).toBe(`${listHeight}px`);
+		expect(getAllByText(/ListItem/).map(item => item.style.transform)).toEqual(
+			nailPoints.slice(0, list.childElementCount).map(nailPoint => `translateY(${nailPoint}px)`),
+		);
+
+		const estimateByIndex = (_data: TItemData, index: number) => (index < 10 ? 20 : 10);
+		rerender(<VirtualList {...defaultProps} estimatedItemHeight={estimateByIndex} disableMeasurment />);
+
+		expect(list.style.height).toBe(`${10 * 20 + (defaultProps.items.length - 10) * 10}px`);
+	});
+
+	it('should estimate the unmeasured items from the measured ones with `adaptiveEstimation`', () => {
+		const items = genItemArray(50).map(item => ({ ...item, height: 80 }));
+		const { container } = render(<VirtualList {...defaultProps} items={items} adaptiveEstimation />);
+		const list = container.firstElementChild as HTMLElement;
+
+		expect(list.style.height).toBe(`${items.length * estimatedItemHeight}px`);
+
+		triggerMeasurement();
+
+		expect(list.style.height).toBe(`${items.length * 80}px`);
+	});
+
+	it('should average every item type on its own with `adaptiveEstimation`', () => {
+		const { container } = render(
+			<VirtualList {...defaultProps} adaptiveEstimation={(data: TItemData) => data.height} />,
+		);
+		const list = container.firstElementChild as HTMLElement;
+
+		triggerMeasurement();
+
+		const listHeight = defaultProps.items.reduce((height, item) => height + item.height, 0);
+		expect(list.style.height).toBe(`${listHeight}px`);
+	});
+
 	it('should handle `items` prop change', () => {
 		const initialItems = genItemArray(5); // 0,1,2,3,4
 		const updatedItems = genItemArray(10).slice(5); // 5,6,7,8,9
@@ -193,6 +282,33 @@ describe('VirtualList', () => {
 		expect(list.childElementCount).toEqual(expectedCount);
 	});
 
+	it('should extend the overscan in the scroll direction while scrolling fast', () => {
+		const props: TListProps = { ...defaultProps, items: genItemArray(200), disableMeasurment: true };
+		const { container } = render(<VirtualList {...props} adaptiveOverscan={{ max: 500 }} />);
+		const list = container.firstElementChild as HTMLElement;
+		const getRenderedIndexes = () => [...list.children].map(item => Number((item as HTMLElement).dataset.index));
+		const scrollTop = 1000;
+
+		// 10 pixels per millisecond
+		vi.advanceTimersByTime(100);
+		simulateScroll(scrollTop);
+		// The edges are inclusive, so the item ending at the viewport top is rendered too
+		expect(getRenderedIndexes().at(0)).toBe(scrollTop / estimatedItemHeight - 1);
+		const extendedBottom = scrollTop + window.innerHeight + 500;
+		expect(getRenderedIndexes().at(-1)).toBe(Math.floor(extendedBottom / estimatedItemHeight));
+
+		act(() => {
+			vi.advanceTimersByTime(150);
+		});
+		expect(getRenderedIndexes().at(-1)).toBe(Math.floor((scrollTop + window.innerHeight) / estimatedItemHeight));
+
+		// Scrolling back at 1 pixel per millisecond extends the overscan above the viewport
+		vi.advanceTimersByTime(100);
+		simulateScroll(scrollTop - 100);
+		expect(getRenderedIndexes().at(0)).toBe((scrollTop - 100 - 300) / estimatedItemHeight - 1);
+		document.documentElement.scrollTop = 0;
+	});
+
 	it('should handle `overscanPadding` prop change', () => {
 		const initialPadding = 1000;
 		const { container, rerender } = render(<VirtualList {...defaultProps} overscanPadding={initialPadding} />);
@@ -292,7 +408,8 @@ describe('VirtualList', () => {
 			sharedProps: { title: '0' },
 			initState: {},
 		};
-		const listRender = vi.spyOn(VirtualList as React.MemoExoticComponent<typeof VirtualList>, 'type');
+		const { type: forwardedList } = VirtualList as unknown as { type: { render: typeof VirtualList } };
+		const listRender = vi.spyOn(forwardedList, 'render');
 		const { rerender } = render(<VirtualList {...prevProps} />);
 
 		const testProps = (newProps: Partial<TListProps>, shouldRerender: boolean) => {
@@ -315,21 +432,29 @@ describe('VirtualList', () => {
 	});
 
 	it('should handle the measurement when item is no longer visible', () => {
-		const ListItem = vi.spyOn(VirtualListItem as React.MemoExoticComponent<typeof VirtualListItem>, 'type');
-		const { container, getAllByText } = render(<VirtualList {...defaultProps} estimatedItemHeight={1} />);
+		// Keeps reporting the sizes of the last item, even once it's unmounted
+		let reportLastSize: TMeasureListener = () => {};
+		const measurer: TMeasurer = {
+			observe: (element, _orientation, listener) => {
+				listener(Number(element.dataset.expectedHeight));
+				reportLastSize = listener;
+				return () => {};
+			},
+		};
+		const { container, getAllByText } = render(
+			<VirtualList {...defaultProps} estimatedItemHeight={1} measurer={measurer} />,
+		);
 		const list = container.firstElementChild as HTMLElement;
-
-		expect(ListItem).toBeCalled();
-		const lastOfListItemProps = ListItem.mock.lastCall![0];
+		const lastId = getAllByText('ListItem').at(-1)!.dataset.id;
 
 		triggerMeasurement();
 
 		const firstlyRendered = getAllByText('ListItem').map(i => i.dataset.id);
-		expect(firstlyRendered).not.toContain(lastOfListItemProps.itemData.id);
+		expect(firstlyRendered).not.toContain(lastId);
 
 		const listHeightBefore = Number(list.style.height);
 		const itemHeight = 10000;
-		act(() => lastOfListItemProps.onMeasure(lastOfListItemProps.itemIndex, itemHeight));
+		act(() => reportLastSize(itemHeight));
 
 		expect(getAllByText('ListItem').map(i => i.dataset.id)).toEqual(firstlyRendered);
 		expect(Number(list.style.height)).toBe(listHeightBefore + (itemHeight - estimatedItemHeight));
@@ -372,6 +497,683 @@ describe('VirtualList', () => {
 		expect(queryAllByText(/ListItem/)).not.toHaveLength(0);
 	});
 
+	it('should support a custom scroll element', () => {
+		const scrollEl = document.createElement('div');
+		Object.defineProperty(scrollEl, 'clientHeight', { value: 200 });
+		document.body.appendChild(scrollEl);
+
+		const scrollElRef = { current: scrollEl };
+		const { getAllByText } = render(<VirtualList {...defaultProps} scrollElement={scrollElRef} />, {
+			container: scrollEl,
+		});
+		const list = scrollEl.firstElementChild as HTMLElement;
+		// emulate the layout, so the list moves up when the container is scrolled
+		vi.spyOn(list, 'getBoundingClientRect').mockImplementation(() => DOMRect.fromRect({ y: -scrollEl.scrollTop }));
+
+		const initRender = getAllByText(/ListItem/).map(i => i.dataset.id);
+		expect(initRender).toEqual(['0', '1', '2', '3', '4']);
+
+		scrollEl.scrollTop = estimatedNailPoints[10] + 1;
+		fireEvent.scroll(scrollEl);
+
+		const scrolledRender = getAllByText(/ListItem/).map(i => i.dataset.id);
+		expect(scrolledRender).toEqual(['10', '11', '12', '13', '14']);
+
+		// document scrolling should not affect the list
+		simulateScroll(999999);
+		expect(getAllByText(/ListItem/).map(i => i.dataset.id)).toEqual(scrolledRender);
+
+		scrollEl.remove();
+		document.documentElement.scrollTop = 0;
+	});
+
+	it('should support the horizontal orientation', () => {
+		const { container, getAllByText } = render(<VirtualList {...defaultProps} orientation="horizontal" />);
+		const list = container.firstElementChild as HTMLElement;
+		const docEl = document.documentElement;
+
+		expect(list.style.width).toBe(`${defaultProps.items.length * estimatedItemHeight}px`);
+		expect(list.style.height).toBe('100%');
+
+		triggerMeasurement();
+
+		const nailPoints = genNailPoints();
+		const expectedCount = nailPoints.findIndex(i => i > window.innerWidth);
+		const renderedItems = getAllByText(/ListItem/);
+		expect(renderedItems).toHaveLength(expectedCount);
+		expect(renderedItems[1].style.transform).toBe(`translateX(${nailPoints[1]}px)`);
+
+		docEl.scrollLeft = nailPoints[20] + 1;
+		fireEvent.scroll(document);
+		expect(getAllByText(/ListItem/)[0].dataset.id).toBe('20');
+		docEl.scrollLeft = 0;
+	});
+
+	it('should start at the end and follow it when anchored to the bottom', () => {
+		const docEl = document.documentElement;
+		docEl.scrollTop = 0;
+
+		const { container, getAllByText, rerender } = render(<VirtualList {...defaultProps} anchor="bottom" />);
+		const list = container.firstElementChild as HTMLElement;
+		const getListHeight = () => parseInt(list.style.height, 10);
+		const getLastRenderedID = () => getAllByText(/ListItem/).at(-1)!.dataset.id;
+
+		expect(docEl.scrollTop).toBe(getListHeight() - window.innerHeight);
+		expect(getLastRenderedID()).toBe('49');
+
+		triggerMeasurement();
+		expect(docEl.scrollTop + window.innerHeight).toBe(getListHeight());
+		expect(getLastRenderedID()).toBe('49');
+
+		rerender(<VirtualList {...defaultProps} items={genItemArray(60)} anchor="bottom" />);
+		triggerMeasurement();
+		expect(docEl.scrollTop + window.innerHeight).toBe(getListHeight());
+		expect(getLastRenderedID()).toBe('59');
+		docEl.scrollTop = 0;
+	});
+
+	it('should keep the visible content in place when items are prepended to a bottom anchored list', () => {
+		const docEl = document.documentElement;
+		const olderItems = genItemArray(10).map(item => ({ ...item, id: item.id + 1000 }));
+		const { container, getAllByText, rerender } = render(<VirtualList {...defaultProps} anchor="bottom" />);
+		const getScreenPosition = (id: string) => {
+			const item = container.querySelector<HTMLElement>(`[data-id="${id}"]`)!;
+			return Number(/translateY\((\d+)px\)/.exec(item.style.transform)![1]) - docEl.scrollTop;
+		};
+		triggerMeasurement();
+
+		// leave the end, so the list should stop following it
+		simulateScroll(1000);
+		triggerMeasurement();
+		const [firstRendered] = getAllByText(/ListItem/);
+		const positionBefore = getScreenPosition(firstRendered.dataset.id!);
+		const scrollTopBefore = docEl.scrollTop;
+
+		rerender(<VirtualList {...defaultProps} items={[...olderItems, ...defaultProps.items]} anchor="bottom" />);
+		triggerMeasurement();
+
+		expect(docEl.scrollTop).toBeGreaterThan(scrollTopBefore);
+		expect(getScreenPosition(firstRendered.dataset.id!)).toBe(positionBefore);
+
+		// appending while away from the end shouldn't move the content either
+		const scrollTopAfterPrepend = docEl.scrollTop;
+		rerender(<VirtualList {...defaultProps} items={[...olderItems, ...genItemArray(60)]} anchor="bottom" />);
+		expect(docEl.scrollTop).toBe(scrollTopAfterPrepend);
+		docEl.scrollTop = 0;
+	});
+
+	it('should keep the active sticky header rendered and pinned', () => {
+		const isStickyHeader = (data: TItemData) => data.id % 10 === 0;
+		const { getAllByText } = render(<VirtualList {...defaultProps} isStickyHeader={isStickyHeader} />);
+		const getRendered = () => getAllByText(/ListItem/).map(el => ({
+			id: el.dataset.id,
+			transform: el.style.transform,
+			zIndex: el.style.zIndex,
+		}));
+
+		simulateScroll(estimatedNailPoints[25] + 1);
+		const [header, firstVisible] = getRendered();
+		expect(header).toEqual({ id: '20', transform: `translateY(${estimatedNailPoints[25] + 1}px)`, zIndex: '1' });
+		expect(firstVisible.id).toBe('25');
+
+		// the next header pushes the sticky one out
+		simulateScroll(estimatedNailPoints[30] - 20);
+		const pushedOffset = estimatedNailPoints[30] - estimatedItemHeight;
+		expect(getRendered()[0]).toEqual({ id: '20', transform: `translateY(${pushedOffset}px)`, zIndex: '1' });
+
+		simulateScroll(estimatedNailPoints[30] + 1);
+		expect(getRendered()[0].id).toBe('30');
+		expect(getRendered().filter(item => item.zIndex === '1').map(item => item.id)).toEqual(['30']);
+		document.documentElement.scrollTop = 0;
+	});
+
+	it('should invoke `onEndReached` once per pending load', async () => {
+		let finishLoading = () => {};
+		const onEndReached = vi.fn(async () => new Promise<void>((resolve) => {
+			finishLoading = resolve;
+		}));
+		const props: TListProps = { ...defaultProps, onEndReached, loader: <span>Loading</span> };
+		const { rerender, queryByText } = render(<VirtualList {...props} />);
+		const listHeight = defaultProps.items.length * estimatedItemHeight;
+
+		expect(onEndReached).not.toHaveBeenCalled();
+		expect(queryByText('Loading')).toBeNull();
+
+		simulateScroll(listHeight - window.innerHeight - 100);
+		expect(onEndReached).toHaveBeenCalledTimes(1);
+		expect(queryByText('Loading')).not.toBeNull();
+
+		simulateScroll(listHeight - window.innerHeight);
+		rerender(<VirtualList {...props} items={genItemArray(60)} />);
+		expect(onEndReached).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			finishLoading();
+			await Promise.resolve();
+		});
+		expect(queryByText('Loading')).toBeNull();
+		expect(onEndReached).toHaveBeenCalledTimes(1);
+
+		simulateScroll(60 * estimatedItemHeight - window.innerHeight);
+		expect(onEndReached).toHaveBeenCalledTimes(2);
+		document.documentElement.scrollTop = 0;
+	});
+
+	it('should expose the ARIA semantics of the whole list', () => {
+		const { getByRole, getAllByRole, rerender } = render(<VirtualList {...defaultProps} role="list" />);
+		const items = getAllByRole('listitem');
+
+		expect(getByRole('list').getAttribute('aria-busy')).toBe('false');
+		expect(items).toHaveLength(getByRole('list').childElementCount);
+		expect(items.map(item => item.getAttribute('aria-posinset'))).toEqual(items.map((_item, i) => `${i + 1}`));
+		expect(items.every(item => item.getAttribute('aria-setsize') === `${defaultProps.items.length}`)).toBeTruthy();
+
+		rerender(<VirtualList {...defaultProps} role="listbox" />);
+		expect(getAllByRole('option')).toHaveLength(items.length);
+	});
+
+	it('should mark the feed as busy while loading', async () => {
+		let finishLoading = () => {};
+		const onEndReached = vi.fn(async () => new Promise<void>((resolve) => {
+			finishLoading = resolve;
+		}));
+		const { getByRole, getAllByRole } = render(
+			<VirtualList {...defaultProps} role="feed" onEndReached={onEndReached} />,
+		);
+
+		expect(getAllByRole('article')).not.toHaveLength(0);
+		expect(getByRole('feed').getAttribute('aria-busy')).toBe('false');
+
+		simulateScroll(defaultProps.items.length * estimatedItemHeight - window.innerHeight);
+		expect(getByRole('feed').getAttribute('aria-busy')).toBe('true');
+
+		await act(async () => {
+			finishLoading();
+			await Promise.resolve();
+		});
+		expect(getByRole('feed').getAttribute('aria-busy')).toBe('false');
+		document.documentElement.scrollTop = 0;
+	});
+
+	it('should wait for the thenables returned by `onEndReached`', () => {
+		let finishLoading = () => {};
+		const onEndReached = vi.fn(() => ({
+			then: (onSettled: () => void) => {
+				finishLoading = onSettled;
+			},
+		}));
+		const { getByRole } = render(<VirtualList {...defaultProps} role="feed" onEndReached={onEndReached} />);
+
+		simulateScroll(defaultProps.items.length * estimatedItemHeight - window.innerHeight);
+		simulateScroll(defaultProps.items.length * estimatedItemHeight - window.innerHeight - 10);
+		expect(onEndReached).toHaveBeenCalledTimes(1);
+		expect(getByRole('feed').getAttribute('aria-busy')).toBe('true');
+
+		act(() => finishLoading());
+		expect(getByRole('feed').getAttribute('aria-busy')).toBe('false');
+		document.documentElement.scrollTop = 0;
+	});
+
+	it('should inject the selection into the items', () => {
+		const SelectableItem = vi.fn(({ rootElProps, data, onSelect }: TItemComponentProps) => (
+			<button type="button" {...rootElProps} data-id={data.id} onClick={onSelect} children="ListItem" />
+		));
+		const ref = createRef<THandle<TItemData>>();
+		const props: TListProps = { ...defaultProps, component: SelectableItem, role: 'listbox' };
+		const { getAllByRole, queryAllByRole } = render(<VirtualList {...props} selectionMode="multiple" ref={ref} />);
+		const getSelected = () => queryAllByRole('option', { selected: true }).map(item => item.dataset.id);
+
+		fireEvent.click(getAllByRole('option')[1]);
+		expect(getSelected()).toEqual(['1']);
+
+		SelectableItem.mockClear();
+		fireEvent.click(getAllByRole('option')[3], { shiftKey: true });
+		expect(getSelected()).toEqual(['1', '2', '3']);
+		// Only the items with a changed selection are rerendered
+		expect(SelectableItem.mock.calls.map(([itemProps]) => itemProps.data.id)).toEqual([2, 3]);
+
+		act(() => ref.current!.selectAll());
+		expect(getSelected()).toHaveLength(getAllByRole('option').length);
+
+		act(() => ref.current!.clearSelection());
+		expect(getSelected()).toHaveLength(0);
+	});
+
+	const DraggableItem = vi.fn(({ rootElProps, data, dragHandleProps }: TItemComponentProps) => (
+		<button type="button" {...rootElProps} {...dragHandleProps} data-id={data.id} children="ListItem" />
+	));
+
+	it('should reorder the items by dragging them with a pointer', () => {
+		const onReorder = vi.fn();
+		const { container } = render(
+			<VirtualList {...defaultProps} component={DraggableItem} disableMeasurment onReorder={onReorder} />,
+		);
+		const list = container.firstElementChild as HTMLElement;
+		const getItem = (index: number) => list.querySelector<HTMLElement>(`[data-index="${index}"]`)!;
+		const getOffset = (index: number) => getItem(index).style.transform;
+
+		fireEvent.pointerDown(getItem(1), { button: 0, clientY: 75 });
+		fireEvent.pointerMove(window, { clientY: 205 });
+
+		// The passed items make room for the dragged one
+		expect(getOffset(1)).toBe('translateY(180px)');
+		expect([2, 3, 4].map(getOffset)).toEqual(['translateY(50px)', 'translateY(100px)', 'translateY(200px)']);
+		expect(getItem(1).style.zIndex).toBe('1');
+
+		fireEvent.pointerUp(window);
+		expect(onReorder).toHaveBeenCalledExactlyOnceWith(1, 3);
+		expect(getOffset(1)).toBe('translateY(50px)');
+	});
+
+	it('should reorder the items with the keyboard', () => {
+		const onReorder = vi.fn();
+		const { container } = render(
+			<VirtualList {...defaultProps} component={DraggableItem} disableMeasurment onReorder={onReorder} />,
+		);
+		const list = container.firstElementChild as HTMLElement;
+		const getItem = (index: number) => list.querySelector<HTMLElement>(`[data-index="${index}"]`)!;
+
+		fireEvent.keyDown(getItem(0), { key: ' ' });
+		fireEvent.keyDown(getItem(0), { key: 'ArrowDown' });
+		fireEvent.keyDown(getItem(0), { key: 'ArrowDown' });
+		expect(getItem(0).style.transform).toBe('translateY(100px)');
+
+		fireEvent.keyDown(getItem(0), { key: 'Escape' });
+		expect(getItem(0).style.transform).toBe('translateY(0px)');
+		expect(onReorder).not.toHaveBeenCalled();
+
+		// The dragged item stays mounted, even though the list scrolls away from its origin
+		fireEvent.keyDown(getItem(0), { key: 'Enter' });
+		for (let i = 0; i < 30; i++) fireEvent.keyDown(getItem(0), { key: 'ArrowDown' });
+		fireEvent.scroll(document);
+		expect(document.documentElement.scrollTop).toBeGreaterThan(0);
+		expect(getItem(0).style.transform).toBe(`translateY(${estimatedNailPoints[30]}px)`);
+
+		fireEvent.keyDown(getItem(0), { key: 'Enter' });
+		expect(onReorder).toHaveBeenCalledExactlyOnceWith(0, 30);
+		document.documentElement.scrollTop = 0;
+	});
+
+	it('should animate the changes of the items', () => {
+		const animate = vi.fn();
+		HTMLElement.prototype.animate = animate;
+		const props: TListProps = { ...defaultProps, disableMeasurment: true, animateChanges: true };
+		const { container, rerender } = render(<VirtualList {...props} />);
+		const list = container.firstElementChild as HTMLElement;
+		const getAnimated = () => animate.mock.contexts.map(element => (element as HTMLElement).dataset.index);
+
+		const [first, , ...rest] = props.items;
+		rerender(<VirtualList {...props} items={[{ id: 100, height: 50 }, first, ...rest]} />);
+
+		// The list, the inserted item, the moved item and the removed one, but not the items that stayed in place
+		expect(getAnimated()).toEqual([undefined, '0', '1', '-1']);
+		expect(animate).toHaveBeenNthCalledWith(3, {
+			transform: ['translate(0%, -50px) translateY(50px)', 'translateY(50px)'],
+		}, { duration: 200, easing: 'ease' });
+		expect(list.querySelector('[data-index="-1"]')!.getAttribute('data-id')).toBe('1');
+
+		act(() => {
+			vi.advanceTimersByTime(200);
+		});
+		expect(list.querySelector('[data-index="-1"]')).toBeNull();
+
+		// Nothing is animated when the user prefers reduced motion
+		animate.mockClear();
+		vi.spyOn(window, 'matchMedia').mockReturnValue({ matches: true } as MediaQueryList);
+		rerender(<VirtualList {...props} items={rest} />);
+		expect(animate).not.toHaveBeenCalled();
+		expect(list.querySelector('[data-index="-1"]')).toBeNull();
+
+		vi.restoreAllMocks();
+		delete (HTMLElement.prototype as Partial<HTMLElement>).animate;
+	});
+
+	it('should invoke `onStartReached` with the threshold counted in items', () => {
+		const onStartReached = vi.fn();
+		render(<VirtualList {...defaultProps} onStartReached={onStartReached} reachThreshold={{ items: 5 }} />);
+		expect(onStartReached).toHaveBeenCalledTimes(1);
+
+		simulateScroll(estimatedNailPoints[5] - 1);
+		expect(onStartReached).toHaveBeenCalledTimes(1);
+
+		simulateScroll(estimatedNailPoints[5] + 1);
+		simulateScroll(0);
+		expect(onStartReached).toHaveBeenCalledTimes(2);
+	});
+
+	it('should invoke `onEndReached` when the list is empty', () => {
+		const onEndReached = vi.fn();
+		render(<VirtualList {...defaultProps} items={[]} onEndReached={onEndReached} />);
+
+		expect(onEndReached).toHaveBeenCalledTimes(1);
+	});
+
+	it('should restore the scroll position and measurements from a snapshot', () => {
+		const docEl = document.documentElement;
+		const ref = createRef<THandle<TItemData>>();
+		const { container, unmount } = render(<VirtualList {...defaultProps} ref={ref} />);
+		const getListHeight = () => parseInt((container.firstElementChild as HTMLElement).style.height, 10);
+		const getRendered = () => [...container.firstElementChild!.children].map(el => (el as HTMLElement).dataset);
+
+		triggerMeasurement();
+		simulateScroll(1234);
+		triggerMeasurement();
+
+		const snapshot = JSON.parse(JSON.stringify(ref.current!.getSnapshot())) as TSnapshot;
+		const listHeight = getListHeight();
+		const rendered = getRendered().map(data => data.id);
+		expect(snapshot.anchorID).toBe(Number(rendered[0]));
+		unmount();
+
+		docEl.scrollTop = 0;
+		const { container: restoredContainer } = render(<VirtualList {...defaultProps} initialSnapshot={snapshot} />);
+		const restoredList = restoredContainer.firstElementChild as HTMLElement;
+		const restored = [...restoredList.children].map(el => (el as HTMLElement).dataset);
+
+		expect(docEl.scrollTop).toBe(1234);
+		expect(parseInt(restoredList.style.height, 10)).toBe(listHeight);
+		expect(restored.map(data => data.id)).toEqual(rendered);
+		expect(restored.every(data => data.measured === 'true')).toBeTruthy();
+		docEl.scrollTop = 0;
+	});
+
+	it('should restore the snapshot heights under the item ids', () => {
+		// A custom cache, which doesn't convert the ids to strings
+		const heights = new Map<TID, number>();
+		const heightCache: THeightCache = {
+			get: id => heights.get(id),
+			peek: id => heights.get(id),
+			set: (id, height) => {
+				heights.set(id, height);
+			},
+			delete: (id) => {
+				heights.delete(id);
+			},
+			clear: () => heights.clear(),
+			subscribe: () => () => {},
+		};
+		const snapshot: TSnapshot = { heightCache: { 0: 100, 1: 50 }, anchorID: 0, anchorOffset: 0 };
+		render(<VirtualList {...defaultProps} heightCache={heightCache} initialSnapshot={snapshot} />);
+
+		expect([...heights.entries()]).toEqual([[0, 100], [1, 50]]);
+	});
+
+	it('should reuse the measurements of the lists sharing a height cache', () => {
+		const heightCache = createHeightCache();
+		const getTransforms = (list: Element) => [...list.children].map(el => (el as HTMLElement).style.transform);
+		const measuredNailPoints = genNailPoints().map(nailPoint => `translateY(${nailPoint}px)`);
+
+		const { unmount } = render(<VirtualList {...defaultProps} heightCache={heightCache} />);
+		triggerMeasurement();
+		unmount();
+
+		// A list mounted later starts with the measured heights
+		const { container: reusing } = render(
+			<VirtualList {...defaultProps} heightCache={heightCache} disableMeasurment />,
+		);
+		const reusingList = reusing.firstElementChild!;
+		expect(getTransforms(reusingList)).toEqual(measuredNailPoints.slice(0, reusingList.childElementCount));
+
+		// A mounted list follows the measurements of the other one, unlike the list with its own cache
+		const items = defaultProps.items.map(item => ({ ...item, id: item.id + 100 }));
+		const { container: following } = render(
+			<VirtualList {...defaultProps} items={items} heightCache={heightCache} disableMeasurment />,
+		);
+		const { container: unrelated } = render(<VirtualList {...defaultProps} items={items} disableMeasurment />);
+		render(<VirtualList {...defaultProps} items={items} heightCache={heightCache} />);
+		triggerMeasurement();
+
+		const followingList = following.firstElementChild!;
+		expect(getTransforms(followingList)).toEqual(measuredNailPoints.slice(0, followingList.childElementCount));
+		expect(getTransforms(unrelated.firstElementChild!)[1]).toBe(`translateY(${estimatedItemHeight}px)`);
+	});
+
+	it('should learn the estimate from the heights changed by the other lists', () => {
+		const heightCache = createHeightCache();
+		const { container } = render(
+			<VirtualList {...defaultProps} heightCache={heightCache} adaptiveEstimation disableMeasurment />,
+		);
+		const list = container.firstElementChild as HTMLElement;
+		const itemCount = defaultProps.items.length;
+
+		// The heights of the items missing from the list don't count
+		act(() => {
+			heightCache.set(0, 80);
+			heightCache.set(1, 100);
+			heightCache.set('other', 500);
+		});
+		triggerMeasurement();
+		expect(list.style.height).toBe(`${80 + 100 + (itemCount - 2) * 90}px`);
+
+		act(() => heightCache.set(1, 120));
+		triggerMeasurement();
+		expect(list.style.height).toBe(`${80 + 120 + (itemCount - 2) * 100}px`);
+
+		act(() => heightCache.delete(1));
+		triggerMeasurement();
+		expect(list.style.height).toBe(`${itemCount * 80}px`);
+
+		// Without any measured item, the estimate is used again
+		act(() => heightCache.delete(0));
+		triggerMeasurement();
+		expect(list.style.height).toBe(`${itemCount * estimatedItemHeight}px`);
+	});
+
+	it('should drop only its own measurements from a shared height cache', () => {
+		const ref = createRef<THandle<TItemData>>();
+		const heightCache = createHeightCache();
+		heightCache.set('other', 123);
+		const props = { ...defaultProps, ref, heightCache };
+		const { rerender } = render(<VirtualList {...props} />);
+		triggerMeasurement();
+
+		act(() => ref.current!.invalidate('all'));
+		expect(heightCache.peek('other')).toBe(123);
+
+		rerender(<VirtualList {...props} orientation="horizontal" />);
+		expect(heightCache.peek(0)).toBeUndefined();
+		expect(heightCache.peek('other')).toBe(123);
+	});
+
+	it('should measure the invalidated items again without moving the content', () => {
+		const docEl = document.documentElement;
+		const ref = createRef<THandle<TItemData>>();
+		const items = genItemArray(50).map(item => ({ ...item, height: 100 }));
+		const { container, rerender } = render(<VirtualList {...defaultProps} ref={ref} items={items} />);
+		const list = container.firstElementChild as HTMLElement;
+		const getItem = (id: number) => list.querySelector<HTMLElement>(`[data-id="${id}"]`)!;
+		triggerMeasurement();
+		simulateScroll(1000);
+		triggerMeasurement();
+
+		// The observer doesn't catch the changed content, so the old heights stay cached
+		const changedItems = items.map(item => (item.id === 10 || item.id === 11 ? { ...item, height: 150 } : item));
+		rerender(<VirtualList {...defaultProps} ref={ref} items={changedItems} />);
+		triggerMeasurement();
+		const listHeight = parseInt(list.style.height, 10);
+		expect(getItem(11).style.transform).toBe('translateY(1100px)');
+
+		act(() => ref.current!.invalidate([10, 11]));
+		expect(getItem(10).dataset.measured).toBe('false');
+		triggerMeasurement();
+
+		// The first visible item with a known height stays in place
+		expect(list.style.height).toBe(`${listHeight + 2 * 50}px`);
+		expect(getItem(11).style.transform).toBe('translateY(1150px)');
+		expect(getItem(12).style.transform).toBe('translateY(1300px)');
+		expect(docEl.scrollTop).toBe(1000 + 2 * 50);
+
+		// The items above the viewport fall back to the estimate, while the visible ones stay in place
+		act(() => ref.current!.invalidate('all'));
+		triggerMeasurement();
+		const rendered = [...list.children] as HTMLElement[];
+		expect(rendered.every(item => item.dataset.measured === 'true')).toBeTruthy();
+		expect(getItem(13).style.transform).toBe(`translateY(${docEl.scrollTop + 300}px)`);
+		expect(docEl.scrollTop).toBe(10 * 50 + 100);
+		docEl.scrollTop = 0;
+	});
+
+	it('should render a deterministic slice on the server and hydrate it', () => {
+		const initialItemCount = 5;
+		const element = <VirtualList {...defaultProps} initialItemCount={initialItemCount} />;
+		const container = document.createElement('div');
+		container.innerHTML = renderToString(element);
+		document.body.appendChild(container);
+
+		const serverItems = [...container.querySelectorAll<HTMLElement>('[data-id]')];
+		expect(serverItems.map(el => el.dataset.id)).toEqual(['0', '1', '2', '3', '4']);
+
+		const onRecoverableError = vi.fn();
+		const consoleError = vi.spyOn(console, 'error');
+		render(element, { container, hydrate: true, onRecoverableError });
+
+		expect(onRecoverableError).not.toHaveBeenCalled();
+		expect(consoleError).not.toHaveBeenCalled();
+		expect(container.querySelector('[data-id="0"]')).toBe(serverItems[0]);
+
+		const expectedCount = estimatedNailPoints.findIndex(i => i > window.innerHeight);
+		expect(container.querySelectorAll('[data-id]')).toHaveLength(expectedCount);
+	});
+
+	it('should fill the initial viewport height before mounting', () => {
+		const html = renderToString(<VirtualList {...defaultProps} initialViewportHeight={220} />);
+
+		expect(html.match(/data-id="/g)).toHaveLength(5);
+	});
+
+	it('should navigate between the items with the keyboard', () => {
+		const { container } = render(<VirtualList {...defaultProps} keyboardNavigation />);
+		const list = container.firstElementChild as HTMLElement;
+		const docEl = document.documentElement;
+		const getTabIndexes = () => [...list.children].map(item => (item as HTMLElement).tabIndex);
+
+		expect(getTabIndexes()).toEqual([0, ...Array(list.childElementCount - 1).fill(-1) as number[]]);
+
+		fireEvent.keyDown(list, { key: 'ArrowDown' });
+		expect(document.activeElement).toBe(list.querySelector('[data-index="1"]'));
+		expect(getTabIndexes().filter(tabIndex => tabIndex === 0)).toHaveLength(1);
+
+		fireEvent.keyDown(list, { key: 'End' });
+		const lastIndex = defaultProps.items.length - 1;
+		expect(document.activeElement).toBe(list.querySelector(`[data-index="${lastIndex}"]`));
+		expect(docEl.scrollTop + window.innerHeight).toBe(estimatedNailPoints[lastIndex] + estimatedItemHeight);
+
+		// The focused item stays mounted, even though it is out of the rendered range
+		fireEvent.keyDown(list, { key: 'PageUp' });
+		const pageIndex = Math.floor((estimatedNailPoints[lastIndex] - window.innerHeight) / estimatedItemHeight);
+		expect(document.activeElement).toBe(list.querySelector(`[data-index="${pageIndex}"]`));
+
+		fireEvent.keyDown(list, { key: 'Home' });
+		expect(document.activeElement).toBe(list.querySelector('[data-index="0"]'));
+		expect(docEl.scrollTop).toBe(0);
+
+		fireEvent.focus(list.querySelector('[data-index="3"]')!);
+		fireEvent.keyDown(list, { key: 'ArrowUp' });
+		expect(document.activeElement).toBe(list.querySelector('[data-index="2"]'));
+	});
+
+	it('should ignore the keys and the focus within the items', () => {
+		// The nested element mimics the item of a list rendered within the item
+		const ItemWithInput = ({ rootElProps, data }: TItemComponentProps) => (
+			<div {...rootElProps} data-id={data.id} data-expected-height={data.height}>
+				<div data-index={data.id + 1}>
+					<input aria-label={`Input ${data.id}`} />
+				</div>
+			</div>
+		);
+		const { container, getByLabelText } = render(
+			<VirtualList {...defaultProps} component={ItemWithInput} keyboardNavigation />,
+		);
+		const list = container.firstElementChild as HTMLElement;
+		const getItem = (index: number) => list.querySelector<HTMLElement>(`:scope > [data-index="${index}"]`)!;
+
+		const input = getByLabelText('Input 2');
+		act(() => input.focus());
+		expect(getItem(2).tabIndex).toBe(0);
+
+		expect(fireEvent.keyDown(input, { key: 'End' })).toBeTruthy();
+		expect(fireEvent.keyDown(input, { key: 'ArrowDown' })).toBeTruthy();
+		expect(document.activeElement).toBe(input);
+
+		fireEvent.keyDown(getItem(2), { key: 'ArrowDown' });
+		expect(document.activeElement).toBe(getItem(3));
+	});
+
+	it('should scroll to the requested index', () => {
+		const ref = createRef<THandle<TItemData>>();
+		const { getAllByText } = render(<VirtualList {...defaultProps} ref={ref} />);
+		const docEl = document.documentElement;
+
+		act(() => ref.current!.scrollToIndex(25, { align: 'start' }));
+		fireEvent.scroll(document);
+		expect(docEl.scrollTop).toBe(estimatedNailPoints[25]);
+		expect(getAllByText(/ListItem/).map(i => i.dataset.id)).toContain('25');
+
+		act(() => ref.current!.scrollToIndex(24));
+		expect(docEl.scrollTop).toBe(estimatedNailPoints[24]);
+
+		act(() => ref.current!.scrollToIndex(25, { align: 'center' }));
+		expect(docEl.scrollTop).toBe(estimatedNailPoints[25] + (estimatedItemHeight - window.innerHeight) / 2);
+
+		// already visible, so it should stay in place
+		act(() => ref.current!.scrollToIndex(26));
+		expect(docEl.scrollTop).toBe(estimatedNailPoints[25] + (estimatedItemHeight - window.innerHeight) / 2);
+		docEl.scrollTop = 0;
+	});
+
+	it('should keep correcting the position until the target item settles', () => {
+		const ref = createRef<THandle<TItemData>>();
+		const { container } = render(<VirtualList {...defaultProps} ref={ref} />);
+		const docEl = document.documentElement;
+		const targetID = 30;
+
+		act(() => ref.current!.scrollToId(targetID, { align: 'end' }));
+		fireEvent.scroll(document);
+		expect(docEl.scrollTop).toBe(estimatedNailPoints[targetID] + estimatedItemHeight - window.innerHeight);
+
+		triggerMeasurement();
+		fireEvent.scroll(document);
+		triggerMeasurement();
+
+		const targetEl = container.querySelector<HTMLElement>(`[data-id="${targetID}"]`)!;
+		const targetTop = Number(/translateY\((\d+)px\)/.exec(targetEl.style.transform)![1]);
+		const targetHeight = defaultProps.items[targetID].height;
+
+		expect(targetEl.dataset.measured).toBe('true');
+		expect(docEl.scrollTop + window.innerHeight).toBe(targetTop + targetHeight);
+		docEl.scrollTop = 0;
+	});
+
+	it('should apply the measurements of a single frame in one batch', async () => {
+		const items = genItemArray(50).map(item => ({ ...item, height: 100 }));
+		const { container, rerender } = render(<VirtualList {...defaultProps} items={items} overscanPadding={200} />);
+		const list = container.firstElementChild as HTMLElement;
+		const docEl = document.documentElement;
+		triggerMeasurement();
+		simulateScroll(1000);
+		triggerMeasurement();
+		expect(docEl.scrollTop).toBe(1000);
+
+		// Reflow all of the rendered items, including the ones overscanned above the viewport
+		const shrunkItems = items.map(item => ({ ...item, height: 60 }));
+		rerender(<VirtualList {...defaultProps} items={shrunkItems} overscanPadding={200} />);
+		ItemComponent.mockClear();
+		// The mutations reach the fake measurer through the real timers of happy-dom
+		vi.useRealTimers();
+		await act(async () => new Promise((resolve) => { setTimeout(resolve, 10); }));
+		vi.useFakeTimers();
+		triggerMeasurement();
+
+		// Every item is rendered once and the first visible item stays at the viewport top
+		const renderedIds = ItemComponent.mock.calls.map(([props]) => props.data.id);
+		expect(renderedIds).toEqual([...new Set(renderedIds)]);
+		// The items 7 to 9 are overscanned above the viewport
+		expect(docEl.scrollTop).toBe(1000 - 3 * (100 - 60));
+		const firstVisible = list.querySelector<HTMLElement>('[data-index="10"]')!;
+		expect(firstVisible.style.transform).toBe(`translateY(${docEl.scrollTop}px)`);
+		docEl.scrollTop = 0;
+	});
+
 	it('should handle items that shrink above the viewport', () => {
 		const height = 100;
 		const estimatedHeight = 1000;
@@ -1,13 +1,4 @@
-import {
-	act,
-	render,
-} from '@testing-library/react';
-import {
-	unstable_flushAll as flushAll,
-	unstable_getCurrentPriorityLevel as getCurrentPriorityLevel,
-	unstable_LowPriority as LowPriority,
-	unstable_UserBlockingPriority as UserBlockingPriority,
-} from 'scheduler/unstable_mock';
+import { render } from '@testing-library/react';
 import {
 	describe,
 	expect,
@@ -27,7 +18,6 @@ type TListItemProps = TVirtualListItemProps<TItemComponentProps>;
 vi.useFakeTimers();
 
 describe('VirtualListItem', () => {
-	const onMeasureFn = vi.fn<TListItemProps['onMeasure']>();
 	const ItemComponent = vi.fn(({ rootElProps, title, data }: TItemComponentProps) => (
 		<div
 			{...rootElProps}
@@ -43,17 +33,8 @@ describe('VirtualListItem', () => {
 		itemData: { id: 0, height: 10 },
 		itemIndex: 0,
 		nailPoint: 0,
-		onMeasure: onMeasureFn,
 	};
 
-	const triggerMeasurement = () => act(() => {
-		vi.runAllTimers();
-		flushAll();
-	});
-
-	const observerConnect = vi.spyOn(ResizeObserver.prototype, 'observe');
-	const observerDisconnect = vi.spyOn(ResizeObserver.prototype, 'disconnect');
-
 	it('should render', () => {
 		const { container } = render(<VirtualListItem {...defaultProps} />);
 
@@ -61,84 +42,28 @@ describe('VirtualListItem', () => {
 		expect(container.firstChild).toMatchSnapshot();
 	});
 
-	it('should attach observers with correct priorities', () => {
-		const fn = vi.fn(() => getCurrentPriorityLevel());
-
-		// first render has an UserBlockingPriority:
-		render(<VirtualListItem {...defaultProps} onMeasure={fn} />);
-		triggerMeasurement();
-		expect(fn).lastReturnedWith(UserBlockingPriority);
-
-		// everything except the first render has LowPriority:
-		render(<VirtualListItem {...defaultProps} onMeasure={fn} isAlreadyMeasured />);
-		triggerMeasurement();
-		expect(fn).lastReturnedWith(LowPriority);
-	});
-
-	it('should not attach observers when measurment is disabled', () => {
-		render(<VirtualListItem {...defaultProps} isMeasurmentDisabled />);
-		triggerMeasurement();
-		expect(observerConnect).not.toBeCalled();
-	});
-
-	it('should attach observers when measurment is no longer disabled', () => {
-		const { rerender } = render(<VirtualListItem {...defaultProps} isMeasurmentDisabled />);
-		triggerMeasurement();
-		expect(observerConnect).not.toBeCalled();
-
-		rerender(<VirtualListItem {...defaultProps} isMeasurmentDisabled={false} />);
-		triggerMeasurement();
-		expect(observerConnect).toBeCalled();
-	});
-
-	it('should reuse the attached observer when rerendering', () => {
-		const { rerender } = render(<VirtualListItem {...defaultProps} />);
-
-		triggerMeasurement();
-		expect(observerConnect).toBeCalled();
-
-		observerConnect.mockClear();
-		rerender(<VirtualListItem {...defaultProps} isAlreadyMeasured />);
-
-		triggerMeasurement();
-		expect(observerConnect).not.toBeCalled();
-	});
-
-	it('should abort an observer attachment at premature unmount', () => {
-		const { unmount } = render(<VirtualListItem {...defaultProps} />);
-
-		unmount();
-		triggerMeasurement();
-		expect(onMeasureFn).not.toBeCalled();
-	});
-
-	it('should disconnect from ResizeObserver when unmounting', () => {
-		const { unmount } = render(<VirtualListItem {...defaultProps} />);
-		triggerMeasurement();
-		expect(observerDisconnect).not.toBeCalled();
+	it('should attach the measure ref to the root element', () => {
+		const measureRef = vi.fn<NonNullable<TListItemProps['measureRef']>>();
+		const { container, unmount } = render(<VirtualListItem {...defaultProps} measureRef={measureRef} />);
 
+		expect(measureRef.mock.lastCall![0]).toBe(container.firstElementChild);
 		unmount();
-		expect(observerDisconnect).toBeCalled();
+		expect(measureRef.mock.lastCall![0]).toBeNull();
 	});
 
-	it('should not trigger the onMeasure event when height is equal to 0', () => {
-		render(<VirtualListItem {...defaultProps} itemData={{ id: 1, height: 0 }} />);
-
-		// give a scheduler some time to attach the listener
-		triggerMeasurement();
-
-		expect(onMeasureFn).not.toHaveBeenCalled();
-	});
-
-	it('should trigger the onMeasure event', () => {
-		const height = 3;
-		render(<VirtualListItem {...defaultProps} itemData={{ id: 1, height }} />);
-
-		// give a scheduler some time to attach the listener
-		triggerMeasurement();
-
-		expect(onMeasureFn).toHaveReturnedTimes(1);
-		expect(onMeasureFn).toHaveBeenCalledWith(0, height);
+	it('should lay out the item horizontally', () => {
+		const { container } = render(
+			<VirtualListItem
+				{...defaultProps}
+				itemData={{ id: 1, height: 3 }}
+				orientation="horizontal"
+				nailPoint={7}
+			/>,
+		);
+		const item = container.firstElementChild as HTMLElement;
+
+		expect(item.style.transform).toBe('translateX(7px)');
+		expect(item.style.height).toBe('100%');
 	});
 
 	it('should not rerender when it is unnecessary', () => {
@@ -162,7 +87,7 @@ describe('VirtualListItem', () => {
 		testProps({ itemIndex: 43 }, true);
 		testProps({ nailPoint: 91 }, true);
 		testProps({ isAlreadyMeasured: !prevProps.isAlreadyMeasured }, true);
-		testProps({ onMeasure: () => {} }, true);
+		testProps({ measureRef: () => {} }, true);
 		testProps({ sharedProps: { ...prevProps.sharedProps } }, true);
 	});
 });
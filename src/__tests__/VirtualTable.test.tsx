@@ -0,0 +1,143 @@
+import { act, fireEvent, render } from '@testing-library/react';
+import { createRef } from 'react';
+import {
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import type { THandle } from '../useVirtualList.ts';
+import VirtualTable, { type TProps as TVirtualTableProps, type TTableColumn } from '../VirtualTable.tsx';
+
+type TRowData = {
+	id: number;
+	name: string;
+};
+
+vi.useFakeTimers();
+
+describe('VirtualTable', () => {
+	const estimatedItemHeight = 50;
+
+	const genColumns = (length: number, width?: number): Array<TTableColumn<TRowData>> => (
+		[...Array(length) as unknown[]].map((_v, index) => ({
+			key: `column-${index}`,
+			header: `Column ${index}`,
+			width,
+			cell: data => `${data.name} ${index}`,
+		}))
+	);
+	const defaultProps: TVirtualTableProps<TRowData> = {
+		items: [...Array(100) as unknown[]].map((_v, index) => ({ id: index, name: `Row ${index}` })),
+		columns: genColumns(3, 100),
+		estimatedItemHeight,
+		overscanPadding: 0,
+		disableMeasurment: true,
+	};
+	const mockRects = (getRect: (element: HTMLElement) => { left?: number; width?: number; height?: number }) => vi
+		.spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+		.mockImplementation(function (this: HTMLElement) {
+			const { left = 0, width = 0, height = 0 } = getRect(this);
+			return new DOMRect(left, 0, width, height);
+		});
+
+	it('should render the visible rows with the table semantics', () => {
+		const { getByRole, getAllByRole } = render(<VirtualTable {...defaultProps} />);
+		const table = getByRole('table');
+		const rows = getAllByRole('row');
+
+		expect(table.getAttribute('aria-rowcount')).toBe('101');
+		expect(table.getAttribute('aria-colcount')).toBe('3');
+		const headers = getAllByRole('columnheader');
+		expect(headers.map(cell => cell.textContent)).toEqual(['Column 0', 'Column 1', 'Column 2']);
+
+		// The header row and the rows fitting the viewport
+		expect(rows).toHaveLength(1 + Math.floor(window.innerHeight / estimatedItemHeight) + 1);
+		expect(rows[2].getAttribute('aria-rowindex')).toBe('3');
+		expect(rows[2].style.transform).toBe(`translateY(${estimatedItemHeight}px)`);
+		expect([...rows[2].children].map(cell => cell.textContent)).toEqual(['Row 1 0', 'Row 1 1', 'Row 1 2']);
+		expect(getAllByRole('cell')[0].style.width).toBe('100px');
+	});
+
+	it('should offset the rows by the table position within the page', () => {
+		// The page offsets of the table and its body, which starts below the 30px header
+		const pageTops = new Map<Element, number>();
+		const getPageTop = (element: Element | null) => (element && pageTops.get(element)) ?? 0;
+		// happy-dom has no layout, so the offset parent is the closest positioned ancestor, as in the browsers
+		const getOffsetParent = (element: HTMLElement) => {
+			let parent = element.parentElement;
+			while (parent && parent !== document.body && !parent.style.position) parent = parent.parentElement;
+			return parent;
+		};
+		vi.spyOn(HTMLElement.prototype, 'offsetTop', 'get').mockImplementation(function getTop(this: HTMLElement) {
+			return getPageTop(this) - getPageTop(getOffsetParent(this));
+		});
+
+		const { getByRole, getAllByRole } = render(<VirtualTable {...defaultProps} />);
+		const table = getByRole('table');
+		pageTops.set(table, 500);
+		pageTops.set(table.lastElementChild!, 530);
+
+		document.documentElement.scrollTop = 530 + 20 * estimatedItemHeight + 10;
+		fireEvent.scroll(document);
+		expect(getAllByRole('row')[1].getAttribute('aria-rowindex')).toBe(`${20 + 2}`);
+
+		document.documentElement.scrollTop = 0;
+		vi.restoreAllMocks();
+	});
+
+	it('should measure the widths of the columns from the header', () => {
+		mockRects(element => ({ width: element.getAttribute('role') === 'columnheader' ? 120 : 0 }));
+		const columns = genColumns(3).map((column, i) => (i === 1 ? { ...column, width: 80 } : column));
+		const { getByRole, getAllByRole } = render(<VirtualTable {...defaultProps} columns={columns} />);
+
+		expect(getAllByRole('columnheader').map(cell => cell.style.width)).toEqual(['120px', '80px', '120px']);
+		expect([...getAllByRole('row')[1].children].map(cell => (cell as HTMLElement).style.width))
+			.toEqual(['120px', '80px', '120px']);
+		expect(getByRole('table').style.width).toBe('320px');
+		vi.restoreAllMocks();
+	});
+
+	it('should render only the visible columns', () => {
+		let tableStart = 0;
+		mockRects(element => ({ left: element.getAttribute('role') === 'table' ? tableStart : 0 }));
+		const columns = genColumns(20, 200);
+		const { getAllByRole } = render(<VirtualTable {...defaultProps} columns={columns} virtualizeColumns />);
+		const getColumnIndexes = () => getAllByRole('columnheader').map(cell => cell.getAttribute('aria-colindex'));
+
+		// The columns fitting the viewport width and a single overscanned one
+		expect(getColumnIndexes()).toEqual(['1', '2', '3', '4', '5', '6', '7']);
+		expect(getAllByRole('row')[1].children).toHaveLength(7);
+
+		tableStart = -1000;
+		fireEvent.scroll(document);
+
+		expect(getColumnIndexes()).toEqual(['4', '5', '6', '7', '8', '9', '10', '11', '12']);
+		const firstCell = getAllByRole('row')[1].firstElementChild as HTMLElement;
+		expect(firstCell.getAttribute('aria-colindex')).toBe('4');
+		expect(firstCell.style.marginLeft).toBe('600px');
+		vi.restoreAllMocks();
+	});
+
+	it('should scroll the rows below the sticky header', () => {
+		const headerHeight = 30;
+		mockRects(element => ({ height: element.getAttribute('aria-rowindex') === '1' ? headerHeight : 0 }));
+		const docEl = document.documentElement;
+		const ref = createRef<THandle<TRowData>>();
+		render(<VirtualTable {...defaultProps} ref={ref} />);
+
+		act(() => ref.current!.scrollToIndex(20, { align: 'start' }));
+		expect(docEl.scrollTop).toBe(20 * estimatedItemHeight - headerHeight);
+
+		// The row covered by the header is not fully visible
+		act(() => ref.current!.scrollToId(19));
+		expect(docEl.scrollTop).toBe(19 * estimatedItemHeight - headerHeight);
+
+		act(() => ref.current!.scrollToIndex(40, { align: 'end' }));
+		expect(docEl.scrollTop).toBe(41 * estimatedItemHeight - window.innerHeight);
+
+		docEl.scrollTop = 0;
+		vi.restoreAllMocks();
+	});
+});
@@ -0,0 +1,140 @@
+import {
+	act,
+	fireEvent,
+	render,
+} from '@testing-library/react';
+import { createRef } from 'react';
+import { unstable_flushAll as flushAll } from 'scheduler/unstable_mock';
+import {
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import type { THandle } from '../VirtualList.tsx';
+import VirtualTree, { type TProps as TVirtualTreeProps, type TTreeItemProps } from '../VirtualTree.tsx';
+
+type TNodeData = {
+	id: string;
+	height: number;
+	children?: TNodeData[];
+};
+type TNodeComponentProps = TTreeItemProps<TNodeData>;
+type TTreeProps = TVirtualTreeProps<TNodeComponentProps>;
+
+vi.useFakeTimers();
+
+describe('VirtualTree', () => {
+	const estimatedItemHeight = 50;
+
+	const genNodes = (prefix: string, length: number, depth: number): TNodeData[] => (
+		[...Array(length) as unknown[]].map((_v, index) => ({
+			id: `${prefix}${index}`,
+			height: 40 + depth * 10,
+			...(depth < 2 && { children: genNodes(`${prefix}${index}-`, 3, depth + 1) }),
+		}))
+	);
+	const triggerMeasurement = () => act(() => {
+		vi.runAllTimers();
+		flushAll();
+	});
+
+	const NodeComponent = vi.fn(({
+		rootElProps,
+		data,
+		depth,
+		onToggle,
+	}: TNodeComponentProps) => (
+		<button
+			type="button"
+			{...rootElProps}
+			data-id={data.id}
+			data-depth={depth}
+			data-expected-height={data.height}
+			onClick={onToggle}
+			children="TreeNode"
+		/>
+	));
+	const defaultProps: TTreeProps = {
+		component: NodeComponent,
+		nodes: genNodes('', 3, 0),
+		estimatedItemHeight,
+		overscanPadding: 0,
+	};
+
+	it('should render only the expanded nodes', () => {
+		const { getAllByText } = render(<VirtualTree {...defaultProps} defaultExpandedIds={['0', '0-1']} />);
+		const nodes = getAllByText('TreeNode');
+
+		expect(nodes.map(node => node.dataset.id)).toEqual(
+			['0', '0-0', '0-1', '0-1-0', '0-1-1', '0-1-2', '0-2', '1', '2'],
+		);
+		expect(nodes.map(node => node.dataset.depth)).toEqual(['0', '1', '1', '2', '2', '2', '1', '0', '0']);
+	});
+
+	it('should keep the cached heights of the other nodes when toggling a node', () => {
+		const { getAllByText } = render(<VirtualTree {...defaultProps} defaultExpandedIds={['1']} />);
+		triggerMeasurement();
+
+		const getNode = (id: string) => getAllByText('TreeNode').find(node => node.dataset.id === id)!;
+		fireEvent.click(getNode('1'));
+		expect(getAllByText('TreeNode').map(node => node.dataset.id)).toEqual(['0', '1', '2']);
+
+		NodeComponent.mockClear();
+		fireEvent.click(getNode('1'));
+		// Only the toggled node, its children and the moved nodes are rendered again, while the rest stay measured
+		expect(NodeComponent.mock.calls.map(([props]) => props.data.id)).toEqual(['1', '1-0', '1-1', '1-2', '2']);
+		expect(getNode('2').dataset.measured).toBe('true');
+		expect(getNode('1-0').dataset.measured).toBe('true');
+		expect(getNode('1-0').style.transform).toBe(`translateY(${40 + 40}px)`);
+	});
+
+	it('should support the controlled expanded state with the tree semantics', () => {
+		const onExpandedChange = vi.fn();
+		const props: TTreeProps = { ...defaultProps, role: 'tree', onExpandedChange };
+		const { getAllByRole, rerender } = render(<VirtualTree {...props} expandedIds={['2']} />);
+
+		fireEvent.click(getAllByRole('treeitem')[0]);
+		expect(onExpandedChange).toHaveBeenLastCalledWith(['2', '0']);
+		expect(getAllByRole('treeitem')).toHaveLength(6);
+
+		rerender(<VirtualTree {...props} expandedIds={['2', '0']} />);
+		const items = getAllByRole('treeitem');
+		expect(items).toHaveLength(9);
+		expect(items.map(item => item.getAttribute('aria-level'))).toEqual(
+			['1', '2', '2', '2', '1', '1', '2', '2', '2'],
+		);
+		expect(items[0].getAttribute('aria-expanded')).toBe('true');
+		expect(items[4].getAttribute('aria-expanded')).toBe('false');
+	});
+
+	it('should count the positions of the tree items among their siblings', () => {
+		const nodes = defaultProps.nodes.slice(0, 2);
+		const { getAllByRole } = render(
+			<VirtualTree {...defaultProps} nodes={nodes} role="tree" defaultExpandedIds={['0']} />,
+		);
+		const items = getAllByRole('treeitem');
+
+		expect(items.map(item => item.getAttribute('aria-posinset'))).toEqual(['1', '1', '2', '3', '2']);
+		expect(items.map(item => item.getAttribute('aria-setsize'))).toEqual(['2', '3', '3', '3', '2']);
+	});
+
+	it('should give the nodes to the invalidate predicate', () => {
+		const ref = createRef<THandle<TNodeData>>();
+		const { getAllByText } = render(<VirtualTree {...defaultProps} ref={ref} defaultExpandedIds={['0']} />);
+		triggerMeasurement();
+
+		const predicate = vi.fn((node: TNodeData) => node.id === '0-1');
+		act(() => ref.current!.invalidate(predicate));
+		expect(new Set(predicate.mock.calls.map(([node]) => node))).toEqual(new Set([
+			defaultProps.nodes[0],
+			...defaultProps.nodes[0].children!,
+			...defaultProps.nodes.slice(1),
+		]));
+
+		const getNode = (id: string) => getAllByText('TreeNode').find(node => node.dataset.id === id)!;
+		expect(getNode('0-1').dataset.measured).toBe('false');
+		expect(getNode('0-2').dataset.measured).toBe('true');
+	});
+});
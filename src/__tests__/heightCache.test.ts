@@ -0,0 +1,57 @@
+import {
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import { createHeightCache } from '../heightCache.ts';
+
+describe('createHeightCache', () => {
+	it('should store the heights keyed by the item id', () => {
+		const cache = createHeightCache();
+		cache.set(1, 100);
+		cache.set('b', 50);
+
+		expect(cache.get(1)).toBe(100);
+		// The ids are keyed as strings, just like in the snapshots
+		expect(cache.get('1')).toBe(100);
+		expect(cache.get('b')).toBe(50);
+
+		cache.delete(1);
+		expect(cache.get(1)).toBeUndefined();
+		cache.clear();
+		expect(cache.get('b')).toBeUndefined();
+	});
+
+	it('should evict the least recently used heights', () => {
+		const cache = createHeightCache({ maxSize: 3 });
+		cache.set(1, 10);
+		cache.set(2, 20);
+		cache.set(3, 30);
+		cache.get(1);
+		// The layout reads don't count as uses
+		cache.peek(2);
+		cache.set(4, 40);
+
+		expect(cache.peek(2)).toBeUndefined();
+		expect([1, 3, 4].map(id => cache.peek(id))).toEqual([10, 30, 40]);
+	});
+
+	it('should notify the subscribers about the changes', () => {
+		const cache = createHeightCache({ maxSize: 1 });
+		const listener = vi.fn();
+		const unsubscribe = cache.subscribe(listener);
+
+		cache.set(1, 10);
+		cache.set(2, 20); // evicts the first one silently
+		cache.delete(3); // not cached, so nothing changes
+		cache.delete(2);
+		cache.clear();
+		expect(listener.mock.calls).toEqual([[1], [2], [2], [null]]);
+
+		unsubscribe();
+		cache.set(1, 10);
+		expect(listener).toHaveBeenCalledTimes(4);
+	});
+});
@@ -0,0 +1,72 @@
+import {
+	afterEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import {
+	getDefaultMeasurer,
+	rectMeasurer,
+	resizeObserverMeasurer,
+} from '../measurer.ts';
+
+// The setup replaces the default measurer with the fake one
+vi.unmock('../measurer.ts');
+
+describe('measurer', () => {
+	const createElement = (height: number, width: number) => {
+		const element = document.createElement('div');
+		element.dataset.expectedHeight = String(height);
+		element.dataset.expectedWidth = String(width);
+		return element;
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should observe the size along the list axis with a ResizeObserver', () => {
+		const disconnect = vi.fn();
+		vi.stubGlobal('ResizeObserver', class implements ResizeObserver {
+			constructor(private callback: ResizeObserverCallback) {}
+
+			public observe(target: HTMLElement) {
+				const blockSize = Number(target.dataset.expectedHeight);
+				const inlineSize = Number(target.dataset.expectedWidth);
+				this.callback([{ borderBoxSize: [{ blockSize, inlineSize }] } as unknown as ResizeObserverEntry], this);
+			}
+
+			public disconnect = disconnect;
+
+			public unobserve = disconnect;
+		});
+		const listener = vi.fn();
+
+		const stop = resizeObserverMeasurer.observe(createElement(100, 300), 'vertical', listener);
+		resizeObserverMeasurer.observe(createElement(100, 300), 'horizontal', listener);
+		expect(listener.mock.calls).toEqual([[100], [300]]);
+
+		stop();
+		expect(disconnect).toHaveBeenCalledOnce();
+	});
+
+	it('should read the size along the list axis from the bounding rect', () => {
+		const element = createElement(0, 0);
+		vi.spyOn(element, 'getBoundingClientRect').mockReturnValue({ height: 100, width: 300 } as DOMRect);
+		const listener = vi.fn();
+
+		rectMeasurer.observe(element, 'vertical', listener)();
+		rectMeasurer.observe(element, 'horizontal', listener)();
+		expect(listener.mock.calls).toEqual([[100], [300]]);
+		expect(rectMeasurer.isOneShot).toBeTruthy();
+	});
+
+	it('should fall back to the bounding rect without a ResizeObserver', () => {
+		expect(getDefaultMeasurer()).toBe(resizeObserverMeasurer);
+
+		vi.stubGlobal('ResizeObserver', undefined);
+		expect(getDefaultMeasurer()).toBe(rectMeasurer);
+	});
+});
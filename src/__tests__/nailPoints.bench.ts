@@ -0,0 +1,53 @@
+import { bench, describe } from 'vitest';
+
+import {
+	createNailPoints,
+	findRowAt,
+	getTotalHeight,
+	updateNailPoints,
+} from '../nailPoints.ts';
+
+const rowCount = 1_000_000;
+const getRowHeight = (row: number) => (row % 10 === 0 ? 100 : 50);
+const nailPoints = createNailPoints(rowCount, getRowHeight);
+
+/** The plain array of the offsets, rebuilt from the changed row onwards */
+const offsets = [0];
+for (let i = 0; i < rowCount - 1; i++) offsets.push(offsets[i] + getRowHeight(i));
+
+describe('measuring a single row of 1M', () => {
+	let row = 0;
+	const getNextRow = () => {
+		row = (row + 7919) % rowCount;
+		return row;
+	};
+
+	bench('updateNailPoints', () => {
+		updateNailPoints(nailPoints, [getNextRow()], getRowHeight);
+	});
+
+	bench('array prefix sums', () => {
+		const start = getNextRow();
+		const nextOffsets = offsets.slice(0, start + 1);
+		for (let i = start; i < rowCount - 1; i++) nextOffsets.push(nextOffsets[i] + getRowHeight(i));
+	});
+});
+
+describe('finding the first visible row of 1M', () => {
+	const listHeight = getTotalHeight(nailPoints);
+	let offset = 0;
+	const getNextOffset = () => {
+		offset = (offset + 104_729) % listHeight;
+		return offset;
+	};
+
+	bench('findRowAt', () => {
+		findRowAt(nailPoints, getNextOffset());
+	});
+
+	bench('linear scan', () => {
+		const target = getNextOffset();
+		let i = 0;
+		while (i < rowCount - 1 && offsets[i + 1] <= target) i++;
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	createNailPoints,
+	findRowAt,
+	getNailPoint,
+	getTotalHeight,
+	rebuildNailPoints,
+	type TNailPoints,
+	updateNailPoints,
+} from '../nailPoints.ts';
+
+describe('nailPoints', () => {
+	// Spans a few blocks, with the last one partially filled
+	const rowCount = 3000;
+	const getRowHeight = (row: number) => (row % 10 === 0 ? 100 : 50);
+	const genOffsets = (heights: number[]) => heights.reduce((prev, height, i) => [...prev, prev[i] + height], [0]);
+	const toArray = (nailPoints: TNailPoints) => (
+		[...Array(nailPoints.length + 1) as unknown[]].map((_v, row) => getNailPoint(nailPoints, row))
+	);
+
+	const heights = [...Array(rowCount) as unknown[]].map((_v, row) => getRowHeight(row));
+	const nailPoints = createNailPoints(rowCount, getRowHeight);
+
+	it('should create the offsets of all rows', () => {
+		const offsets = genOffsets(heights);
+
+		expect(toArray(nailPoints)).toEqual(offsets);
+		expect(getTotalHeight(nailPoints)).toBe(offsets[rowCount]);
+		expect(getNailPoint(nailPoints, rowCount + 10)).toBe(offsets[rowCount]);
+		expect(getTotalHeight(createNailPoints(0, getRowHeight))).toBe(0);
+	});
+
+	it('should update only the changed rows without mutating the previous offsets', () => {
+		const nextHeights = heights.map((height, row) => ([5, 2100, 2101, 2999].includes(row) ? 10 : height));
+		const updated = updateNailPoints(nailPoints, [5, 2100, 2101, 2999], row => nextHeights[row]);
+
+		expect(toArray(updated)).toEqual(genOffsets(nextHeights));
+		expect(toArray(nailPoints)).toEqual(genOffsets(heights));
+		// The untouched blocks are shared
+		expect(updated.blocks[1]).toBe(nailPoints.blocks[1]);
+		expect(updateNailPoints(nailPoints, [], getRowHeight)).toBe(nailPoints);
+	});
+
+	it('should rebuild all rows from the given one onwards', () => {
+		const nextHeights = heights.map((height, row) => (row >= 1000 ? 20 : height));
+		const rebuilt = rebuildNailPoints(nailPoints, 1000, row => nextHeights[row]);
+
+		expect(toArray(rebuilt)).toEqual(genOffsets(nextHeights));
+		expect(rebuilt.blocks[0]).not.toBe(nailPoints.blocks[0]);
+		expect(toArray(nailPoints)).toEqual(genOffsets(heights));
+	});
+
+	it('should find the last row starting at or above the offset', () => {
+		const offsets = genOffsets(heights);
+		const findLinear = (offset: number) => Math.max(0, offsets.slice(0, rowCount).findLastIndex(o => o <= offset));
+
+		[-1, 0, 1, 99, 100, 101, 51_200, 51_250, 62_345, offsets[rowCount], offsets[rowCount] + 1].forEach((offset) => {
+			expect(findRowAt(nailPoints, offset)).toBe(findLinear(offset));
+		});
+		expect(findRowAt(createNailPoints(0, getRowHeight), 100)).toBe(0);
+	});
+});
@@ -0,0 +1,100 @@
+import { act, renderHook } from '@testing-library/react';
+import {
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import useSelection, { type TSelectionOptions } from '../useSelection.ts';
+import type { TData } from '../useVirtualList.ts';
+
+describe('useSelection', () => {
+	const items: TData[] = [...Array(10) as unknown[]].map((_v, index) => ({ id: `item-${index}` }));
+	const idsOf = (...indexes: number[]) => indexes.map(index => items[index].id);
+
+	const renderSelection = (options?: Partial<TSelectionOptions>) => {
+		const initialProps: TSelectionOptions = { items, selectionMode: 'multiple', ...options };
+		return renderHook(props => useSelection(props), { initialProps });
+	};
+
+	it('should select a single item on a plain click', () => {
+		const { result } = renderSelection();
+
+		act(() => result.current.select(2));
+		act(() => result.current.select(4));
+
+		expect(result.current.selectedIds).toEqual(idsOf(4));
+		expect(result.current.isSelected(items[4].id)).toBeTruthy();
+		expect(result.current.isSelected(items[2].id)).toBeFalsy();
+	});
+
+	it('should toggle the items with ctrl or cmd', () => {
+		const { result } = renderSelection();
+
+		act(() => result.current.select(2));
+		act(() => result.current.select(4, { ctrlKey: true }));
+		act(() => result.current.select(6, { metaKey: true }));
+		act(() => result.current.select(2, { ctrlKey: true }));
+
+		expect(result.current.selectedIds).toEqual(idsOf(4, 6));
+	});
+
+	it('should select a range of items with shift', () => {
+		const { result } = renderSelection();
+
+		act(() => result.current.select(5));
+		act(() => result.current.select(2, { shiftKey: true }));
+		expect(result.current.selectedIds).toEqual(idsOf(2, 3, 4, 5));
+
+		// The range starts from the last clicked item
+		act(() => result.current.select(7, { shiftKey: true }));
+		expect(result.current.selectedIds).toEqual(idsOf(5, 6, 7));
+
+		act(() => result.current.select(9, { ctrlKey: true }));
+		act(() => result.current.select(8, { shiftKey: true, ctrlKey: true }));
+		expect(result.current.selectedIds).toEqual(idsOf(5, 6, 7, 9, 8));
+	});
+
+	it('should select all and clear the selection', () => {
+		const { result } = renderSelection();
+
+		act(() => result.current.selectAll());
+		expect(result.current.selectedIds).toEqual(items.map(item => item.id));
+
+		act(() => result.current.clearSelection());
+		expect(result.current.selectedIds).toEqual([]);
+	});
+
+	it('should select only one item in the single mode', () => {
+		const { result } = renderSelection({ selectionMode: 'single' });
+
+		act(() => result.current.select(2));
+		act(() => result.current.select(5, { shiftKey: true }));
+		act(() => result.current.selectAll());
+
+		expect(result.current.selectedIds).toEqual(idsOf(5));
+	});
+
+	it('should support the controlled selection', () => {
+		const onSelectionChange = vi.fn();
+		const { result, rerender } = renderSelection({ selectedIds: idsOf(1), onSelectionChange });
+
+		act(() => result.current.select(3, { ctrlKey: true }));
+		expect(onSelectionChange).toHaveBeenLastCalledWith(idsOf(1, 3));
+		expect(result.current.selectedIds).toEqual(idsOf(1));
+
+		rerender({ items, selectionMode: 'multiple', selectedIds: idsOf(1, 3), onSelectionChange });
+		expect(result.current.isSelected(items[3].id)).toBeTruthy();
+	});
+
+	it('should keep the handlers stable', () => {
+		const { result } = renderSelection();
+		const { select, selectAll } = result.current;
+
+		act(() => result.current.select(1));
+
+		expect(result.current.select).toBe(select);
+		expect(result.current.selectAll).toBe(selectAll);
+	});
+});
@@ -0,0 +1,211 @@
+import {
+	act,
+	fireEvent,
+	render,
+} from '@testing-library/react';
+import { createRef, forwardRef, useImperativeHandle } from 'react';
+import {
+	unstable_flushAll as flushAll,
+	unstable_getCurrentPriorityLevel as getCurrentPriorityLevel,
+	unstable_LowPriority as LowPriority,
+	unstable_UserBlockingPriority as UserBlockingPriority,
+} from 'scheduler/unstable_mock';
+import {
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+
+import { createHeightCache } from '../heightCache.ts';
+import type { TMeasurer } from '../measurer.ts';
+import useVirtualList, { type THandle, type TOptions } from '../useVirtualList.ts';
+
+type TItemData = {
+	id: number;
+	height: number;
+};
+
+const HeadlessList = forwardRef<THandle<TItemData>, TOptions<TItemData>>((options, ref) => {
+	const {
+		rootRef,
+		virtualItems,
+		totalSize,
+		measureRef,
+		handle,
+	} = useVirtualList(options);
+	useImperativeHandle(ref, () => handle, [handle]);
+
+	return (
+		<ul ref={rootRef} style={{ position: 'relative', height: totalSize }}>
+			{virtualItems.map(item => (
+				<li
+					key={item.data.id}
+					ref={measureRef(item.index)}
+					data-id={item.data.id}
+					data-expected-height={item.data.height}
+					style={{ position: 'absolute', top: item.offset }}
+					children="HeadlessItem"
+				/>
+			))}
+		</ul>
+	);
+});
+HeadlessList.displayName = 'HeadlessList';
+
+vi.useFakeTimers();
+
+describe('useVirtualList', () => {
+	const estimatedItemHeight = 50;
+
+	const genItemArray = (length: number): TItemData[] => [...Array(length) as unknown[]].map((_v, index) => ({
+		id: index,
+		height: (index % 10 === 0) ? 100 : 50,
+	}));
+
+	const defaultProps: TOptions<TItemData> = {
+		items: genItemArray(50),
+		estimatedItemHeight,
+		overscanPadding: 0,
+		disableMeasurment: true,
+	};
+
+	it('should return only the visible items with their offsets', () => {
+		const { container, getAllByText } = render(<HeadlessList {...defaultProps} />);
+		const list = container.firstElementChild as HTMLElement;
+		const items = getAllByText('HeadlessItem');
+
+		expect(list.tagName).toBe('UL');
+		expect(list.style.height).toBe(`${defaultProps.items.length * estimatedItemHeight}px`);
+		expect(items).toHaveLength(Math.floor(window.innerHeight / estimatedItemHeight) + 1);
+		expect(items.map(item => item.style.top)).toEqual(items.map((_item, i) => `${i * estimatedItemHeight}px`));
+	});
+
+	it('should measure the items through `measureRef`', () => {
+		const { container, getAllByText } = render(<HeadlessList {...defaultProps} disableMeasurment={false} />);
+		const list = container.firstElementChild as HTMLElement;
+		// The measurements are applied in a single batch
+		act(() => flushAll());
+		const items = getAllByText('HeadlessItem');
+
+		let offset = 0;
+		const offsets = items.map((item) => {
+			const top = offset;
+			offset += Number(item.dataset.expectedHeight);
+			return `${top}px`;
+		});
+		const listHeight = defaultProps.items.reduce(
+			(height, item, i) => height + (i < items.length ? item.height : estimatedItemHeight),
+			0,
+		);
+
+		expect(items.map(item => item.style.top)).toEqual(offsets);
+		expect(list.style.height).toBe(`${listHeight}px`);
+	});
+
+	describe('measureRef', () => {
+		const stop = vi.fn();
+		const observe = vi.fn<TMeasurer['observe']>((element, _orientation, listener) => {
+			listener(Number(element.dataset.expectedHeight));
+			return stop;
+		});
+		const measurer: TMeasurer = { observe };
+		const props = { ...defaultProps, items: defaultProps.items.slice(0, 3), disableMeasurment: false, measurer };
+
+		it('should observe the already measured items with a lower priority', () => {
+			const priorities: number[] = [];
+			const prioritizedMeasurer: TMeasurer = {
+				observe: () => {
+					priorities.push(getCurrentPriorityLevel());
+					return stop;
+				},
+			};
+			const heightCache = createHeightCache();
+			heightCache.set(0, 100);
+
+			render(<HeadlessList {...props} heightCache={heightCache} measurer={prioritizedMeasurer} />);
+			act(() => flushAll());
+			expect(priorities).toEqual([UserBlockingPriority, UserBlockingPriority, LowPriority]);
+		});
+
+		it('should observe the items once measurement is no longer disabled', () => {
+			const { rerender } = render(<HeadlessList {...props} disableMeasurment />);
+			act(() => flushAll());
+			expect(observe).not.toHaveBeenCalled();
+
+			rerender(<HeadlessList {...props} />);
+			act(() => flushAll());
+			expect(observe).toHaveBeenCalledTimes(3);
+		});
+
+		it('should keep observing the items when rerendering', () => {
+			const { rerender } = render(<HeadlessList {...props} />);
+			act(() => flushAll());
+			expect(observe).toHaveBeenCalledTimes(3);
+
+			rerender(<HeadlessList {...props} items={[...props.items]} />);
+			act(() => flushAll());
+			expect(observe).toHaveBeenCalledTimes(3);
+		});
+
+		it('should abort an observation at premature unmount', () => {
+			const { unmount } = render(<HeadlessList {...props} />);
+			unmount();
+			act(() => flushAll());
+
+			expect(observe).not.toHaveBeenCalled();
+		});
+
+		it('should stop observing the items when unmounting', () => {
+			const { unmount } = render(<HeadlessList {...props} />);
+			act(() => flushAll());
+			expect(stop).not.toHaveBeenCalled();
+
+			unmount();
+			expect(stop).toHaveBeenCalledTimes(3);
+		});
+
+		it('should ignore the zero sizes', () => {
+			const items = props.items.map(item => ({ ...item, height: 0 }));
+			const { container } = render(<HeadlessList {...props} items={items} />);
+			act(() => flushAll());
+
+			expect((container.firstElementChild as HTMLElement).style.height).toBe(`${3 * estimatedItemHeight}px`);
+		});
+	});
+
+	it('should measure the items again after every render with a one-shot measurer', () => {
+		const measurer: TMeasurer = {
+			observe: vi.fn<TMeasurer['observe']>((element, _orientation, listener) => {
+				listener(Number(element.dataset.expectedHeight));
+				return () => {};
+			}),
+			isOneShot: true,
+		};
+		const items = defaultProps.items.slice(0, 3);
+		const props = { ...defaultProps, disableMeasurment: false, measurer };
+		const { container, rerender } = render(<HeadlessList {...props} items={items} />);
+		const list = container.firstElementChild as HTMLElement;
+		act(() => flushAll());
+		expect(list.style.height).toBe('200px');
+
+		rerender(<HeadlessList {...props} items={items.map(item => ({ ...item, height: 70 }))} />);
+		act(() => flushAll());
+		expect(list.style.height).toBe('210px');
+	});
+
+	it('should expose the imperative handle', () => {
+		const ref = createRef<THandle<TItemData>>();
+		const { getAllByText } = render(<HeadlessList {...defaultProps} ref={ref} />);
+		const docEl = document.documentElement;
+
+		act(() => ref.current!.scrollToIndex(30, { align: 'start' }));
+		fireEvent.scroll(document);
+
+		expect(docEl.scrollTop).toBe(30 * estimatedItemHeight);
+		// The edges are inclusive, so the item ending at the viewport top is rendered too
+		expect(getAllByText('HeadlessItem')[1].dataset.id).toBe('30');
+		expect(ref.current!.getSnapshot()).toEqual({ heightCache: {}, anchorID: 30, anchorOffset: 0 });
+		docEl.scrollTop = 0;
+	});
+});
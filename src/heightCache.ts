@@ -0,0 +1,88 @@
+import type { TID } from './useVirtualList.ts';
+
+/**
+ * Function invoked with the `id` of the changed height, or `null` once the whole cache is cleared.
+ */
+export type THeightCacheListener = (id: TID | null) => void;
+
+/**
+ * A store of the measured item heights, keyed by the item `id`.
+ *
+ * Pass the same cache to several lists rendering the same entities, so they reuse each other's measurements.
+ */
+export type THeightCache = {
+	/**
+	 * Reads the height of a rendered item, which counts as a use of it.
+	 */
+	get: (id: TID) => number | undefined;
+	/**
+	 * Reads the height without counting it as a use, for the layout passes going through all of the items.
+	 */
+	peek: (id: TID) => number | undefined;
+	set: (id: TID, height: number) => void;
+	delete: (id: TID) => void;
+	clear: () => void;
+	/**
+	 * Subscribes to the changes of the cache and returns the function unsubscribing the listener.
+	 */
+	subscribe: (listener: THeightCacheListener) => () => void;
+};
+
+export type THeightCacheOptions = {
+	/**
+	 * The maximum number of the stored heights. Once exceeded, the least recently used ones are evicted.
+	 * Only the measured and the rendered items count as used.
+	 *
+	 * Keep it well above the number of the rendered items. The evicted items are measured again once rendered.
+	 */
+	maxSize?: number;
+};
+
+/**
+ * Creates the default in-memory height cache.
+ */
+export const createHeightCache = ({ maxSize = Infinity }: THeightCacheOptions = {}): THeightCache => {
+	// The ids are keyed as strings, just like in the snapshot records
+	const heights = new Map<string, number>();
+	const listeners = new Set<THeightCacheListener>();
+	const notify = (id: TID | null) => listeners.forEach(listener => listener(id));
+
+	return {
+		get: (id) => {
+			const key = String(id);
+			const height = heights.get(key);
+			if (height === undefined || maxSize === Infinity) return height;
+
+			// Move the height to the end of the map, which keeps it ordered from the least recently used
+			heights.delete(key);
+			heights.set(key, height);
+			return height;
+		},
+		peek: id => heights.get(String(id)),
+		set: (id, height) => {
+			const key = String(id);
+			heights.delete(key);
+			heights.set(key, height);
+
+			// The evicted heights don't notify, as the lists keep their layout until the items are measured again
+			for (const evictedKey of heights.keys()) {
+				if (heights.size <= maxSize) break;
+				heights.delete(evictedKey);
+			}
+			notify(id);
+		},
+		delete: (id) => {
+			if (heights.delete(String(id))) notify(id);
+		},
+		clear: () => {
+			heights.clear();
+			notify(null);
+		},
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+	};
+};
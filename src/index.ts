@@ -1,4 +1,41 @@
 export { default } from './VirtualList.tsx';
-export type { TProps as TVirtualListProps, TWindowEdges } from './VirtualList.tsx';
+export { default as VirtualGrid } from './VirtualGrid.tsx';
+export type { TProps as TVirtualGridProps } from './VirtualGrid.tsx';
+export { default as VirtualTable } from './VirtualTable.tsx';
+export type { TTableColumn, TProps as TVirtualTableProps } from './VirtualTable.tsx';
+export { default as VirtualTree } from './VirtualTree.tsx';
+export type {
+	TTreeData,
+	TTreeItemProps,
+	TProps as TVirtualTreeProps,
+} from './VirtualTree.tsx';
+export { createHeightCache } from './heightCache.ts';
+export type { THeightCache, THeightCacheListener, THeightCacheOptions } from './heightCache.ts';
+export { getDefaultMeasurer, rectMeasurer, resizeObserverMeasurer } from './measurer.ts';
+export type { TMeasureListener, TMeasurer } from './measurer.ts';
+export { default as useSelection } from './useSelection.ts';
+export type {
+	TSelection,
+	TSelectionMode,
+	TSelectionOptions,
+	TSelectModifiers,
+} from './useSelection.ts';
+export { default as useVirtualList } from './useVirtualList.ts';
+export type {
+	TVirtualItem,
+	TOptions as TVirtualListOptions,
+	TVirtualListResult,
+} from './useVirtualList.ts';
+export type {
+	TEstimatedItemHeight,
+	THandle as TVirtualListHandle,
+	TOrientation,
+	TScrollAlign,
+	TScrollElement,
+	TScrollToOptions,
+	TSnapshot,
+	TProps as TVirtualListProps,
+	TWindowEdges,
+} from './VirtualList.tsx';
 
 export type { TItemProps } from './VirtualListItem.tsx';
@@ -0,0 +1,55 @@
+import type { TOrientation } from './useVirtualList.ts';
+
+/**
+ * Function invoked with the size of the measured element along the list axis.
+ */
+export type TMeasureListener = (size: number) => void;
+
+/**
+ * A strategy measuring the rendered item elements.
+ */
+export type TMeasurer = {
+	/**
+	 * Starts measuring the element and returns the function stopping it.
+	 *
+	 * The listener is invoked with the current size and then with every change. The zero sizes are ignored.
+	 */
+	observe: (element: HTMLElement, orientation: TOrientation, listener: TMeasureListener) => () => void;
+	/**
+	 * Set when the measurer reports the current size only, without observing the changes.
+	 * Such items are measured again after every render, in a layout effect.
+	 */
+	isOneShot?: boolean;
+};
+
+/**
+ * Observes the border box of the elements with a `ResizeObserver`.
+ */
+export const resizeObserverMeasurer: TMeasurer = {
+	observe: (element, orientation, listener) => {
+		const observer = new ResizeObserver(([{ borderBoxSize }]) => {
+			listener(borderBoxSize[0][orientation === 'horizontal' ? 'inlineSize' : 'blockSize']);
+		});
+		observer.observe(element);
+		return () => observer.disconnect();
+	},
+};
+
+/**
+ * Reads the size of the elements with `getBoundingClientRect`, for the environments without a `ResizeObserver`.
+ *
+ * The size includes the CSS transforms of the element and its ancestors.
+ */
+export const rectMeasurer: TMeasurer = {
+	observe: (element, orientation, listener) => {
+		const { width, height } = element.getBoundingClientRect();
+		listener(orientation === 'horizontal' ? width : height);
+		return () => {};
+	},
+	isOneShot: true,
+};
+
+/**
+ * Returns the `ResizeObserver` measurer, or the `getBoundingClientRect` one when the observer isn't available.
+ */
+export const getDefaultMeasurer = () => (typeof ResizeObserver === 'undefined' ? rectMeasurer : resizeObserverMeasurer);
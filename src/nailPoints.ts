@@ -0,0 +1,142 @@
+/**
+ * The start offsets of the rows, kept as prefix sums split into fixed-size blocks.
+ *
+ * Every block stores the offsets of its rows relative to the block start, and `blockStarts` the offsets of the blocks.
+ * The structure is never mutated. An update copies only the changed blocks and `blockStarts`,
+ * so the previous nail points stay valid for comparing the layouts.
+ */
+export type TNailPoints = {
+	/** The number of rows */
+	readonly length: number;
+	/** The offsets of the rows within every block, followed by the block height */
+	readonly blocks: readonly Float64Array[];
+	/** The offsets of the blocks, followed by the height of the whole list */
+	readonly blockStarts: Float64Array;
+};
+
+type TGetRowHeight = (row: number) => number;
+
+const BLOCK_SHIFT = 10;
+const BLOCK_SIZE = 1 << BLOCK_SHIFT;
+const BLOCK_MASK = BLOCK_SIZE - 1;
+
+const getBlockLength = (rowCount: number, block: number) => Math.min(BLOCK_SIZE, rowCount - block * BLOCK_SIZE);
+
+/**
+ * Returns a copy of the block offsets, recomputed from the given row of the block.
+ */
+const computeBlock = (prevOffsets: Float64Array, block: number, startRow: number, getRowHeight: TGetRowHeight) => {
+	const offsets = prevOffsets.slice();
+	const firstRow = block * BLOCK_SIZE;
+	for (let i = startRow; i < offsets.length - 1; i++) {
+		offsets[i + 1] = offsets[i] + getRowHeight(firstRow + i);
+	}
+	return offsets;
+};
+
+const computeBlockStarts = (prevBlockStarts: Float64Array, blocks: readonly Float64Array[], startBlock: number) => {
+	const blockStarts = prevBlockStarts.slice();
+	for (let b = startBlock; b < blocks.length; b++) {
+		const offsets = blocks[b];
+		blockStarts[b + 1] = blockStarts[b] + offsets[offsets.length - 1];
+	}
+	return blockStarts;
+};
+
+export const createNailPoints = (rowCount: number, getRowHeight: TGetRowHeight): TNailPoints => {
+	const blocks = [...Array(Math.ceil(rowCount / BLOCK_SIZE)) as unknown[]].map((_v, b) => (
+		computeBlock(new Float64Array(getBlockLength(rowCount, b) + 1), b, 0, getRowHeight)
+	));
+	const blockStarts = computeBlockStarts(new Float64Array(blocks.length + 1), blocks, 0);
+
+	return { length: rowCount, blocks, blockStarts };
+};
+
+/**
+ * Returns the offset of the row, or the height of the list for the rows past the end.
+ */
+export const getNailPoint = ({ length, blocks, blockStarts }: TNailPoints, row: number) => {
+	if (row >= length) return blockStarts[blocks.length];
+
+	const block = row >> BLOCK_SHIFT;
+	return blockStarts[block] + blocks[block][row & BLOCK_MASK];
+};
+
+export const getTotalHeight = ({ blocks, blockStarts }: TNailPoints) => blockStarts[blocks.length];
+
+/**
+ * Updates the offsets following the changed rows, which have to be sorted in the ascending order.
+ *
+ * Only the blocks containing the changed rows are copied, so a single update is O(√n) instead of O(n).
+ */
+export const updateNailPoints = (
+	nailPoints: TNailPoints,
+	changedRows: number[],
+	getRowHeight: TGetRowHeight,
+): TNailPoints => {
+	const rows = changedRows.filter(row => row < nailPoints.length);
+	if (rows.length === 0) return nailPoints;
+
+	const blocks = [...nailPoints.blocks];
+	let prevBlock = -1;
+	for (const row of rows) {
+		const block = row >> BLOCK_SHIFT;
+		if (block === prevBlock) continue;
+
+		// The first changed row of a block is its lowest one, so the rest of the block is recomputed from it
+		prevBlock = block;
+		blocks[block] = computeBlock(blocks[block], block, row & BLOCK_MASK, getRowHeight);
+	}
+	const blockStarts = computeBlockStarts(nailPoints.blockStarts, blocks, rows[0] >> BLOCK_SHIFT);
+
+	return { length: nailPoints.length, blocks, blockStarts };
+};
+
+/**
+ * Recomputes the offsets of all rows from the given one onwards, e.g. once the estimate of the unmeasured rows changes.
+ */
+export const rebuildNailPoints = (
+	nailPoints: TNailPoints,
+	startRow: number,
+	getRowHeight: TGetRowHeight,
+): TNailPoints => {
+	if (startRow >= nailPoints.length) return nailPoints;
+
+	const startBlock = startRow >> BLOCK_SHIFT;
+	const blocks = nailPoints.blocks.map((offsets, b) => {
+		if (b < startBlock) return offsets;
+		return computeBlock(offsets, b, b === startBlock ? startRow & BLOCK_MASK : 0, getRowHeight);
+	});
+	const blockStarts = computeBlockStarts(nailPoints.blockStarts, blocks, startBlock);
+
+	return { length: nailPoints.length, blocks, blockStarts };
+};
+
+/**
+ * Returns the index of the last row starting at or above the given offset.
+ */
+export const findRowAt = ({ length, blocks, blockStarts }: TNailPoints, offset: number) => {
+	if (length === 0) return 0;
+
+	const findLast = (first: number, last: number, getOffset: (i: number) => number) => {
+		let found = first;
+		let low = first;
+		let high = last;
+		while (low <= high) {
+			const mid = (low + high) >> 1;
+			if (getOffset(mid) <= offset) {
+				found = mid;
+				low = mid + 1;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return found;
+	};
+
+	const block = findLast(0, blocks.length - 1, b => blockStarts[b]);
+	const offsets = blocks[block];
+	const blockStart = blockStarts[block];
+
+	return block * BLOCK_SIZE + findLast(0, offsets.length - 2, i => blockStart + offsets[i]);
+};
@@ -0,0 +1,16 @@
+import { useRef } from 'react';
+
+import { useIsomorphicLayoutEffect } from './useVirtualList.ts';
+
+/**
+ * Returns a ref holding the value of the last commit.
+ *
+ * Lets the stable callbacks read the current props and state, without being recreated on every change.
+ */
+export default function useLatest<T>(value: T) {
+	const ref = useRef(value);
+	useIsomorphicLayoutEffect(() => {
+		ref.current = value;
+	});
+	return ref as { readonly current: T };
+}
@@ -0,0 +1,142 @@
+import {
+	useCallback,
+	useMemo,
+	useRef,
+	useState,
+} from 'react';
+
+import useLatest from './useLatest.ts';
+import type { TData, TID } from './useVirtualList.ts';
+
+export type TSelectionMode = 'single' | 'multiple';
+
+/**
+ * The modifier keys of the event that selects an item, e.g. a `MouseEvent` or a `KeyboardEvent`.
+ */
+export type TSelectModifiers = {
+	shiftKey?: boolean;
+	ctrlKey?: boolean;
+	metaKey?: boolean;
+};
+
+export type TSelectionOptions<D extends TData = TData> = {
+	/**
+	 * An array of actual data mapped to all children.
+	 */
+	items: D[];
+	/**
+	 * Enables the selection.
+	 *
+	 * In the `multiple` mode, shift-click selects a range of items and ctrl-click (or cmd-click) toggles a single one.
+	 */
+	selectionMode?: TSelectionMode;
+	/**
+	 * The `id`s of the selected items, which makes the selection controlled.
+	 */
+	selectedIds?: TID[];
+	/**
+	 * The `id`s of the initially selected items, when the selection is uncontrolled.
+	 */
+	defaultSelectedIds?: TID[];
+	/**
+	 * Function invoked with the `id`s of the selected items, every time the selection changes.
+	 */
+	onSelectionChange?: (selectedIds: TID[]) => void;
+};
+
+export type TSelection = {
+	selectedIds: TID[];
+	isSelected: (id: TID) => boolean;
+	/**
+	 * Selects the item at the given index, according to the `selectionMode` and the pressed modifier keys.
+	 *
+	 * The function is stable, so it can be passed down to the memoized items.
+	 */
+	select: (index: number, modifiers?: TSelectModifiers) => void;
+	selectAll: () => void;
+	clearSelection: () => void;
+};
+
+type TLatest = {
+	items: TData[];
+	selectedIds: TID[];
+	selectionMode?: TSelectionMode;
+	setSelectedIds: (selectedIds: TID[]) => void;
+};
+
+const getRangeIds = (items: TData[], from: number, to: number) => items
+	.slice(Math.min(from, to), Math.max(from, to) + 1)
+	.map(item => item.id);
+
+/**
+ * Tracks the selected items by their `id`, so the selection survives the items being unmounted.
+ */
+export default function useSelection<D extends TData>({
+	items,
+	selectionMode,
+	selectedIds: controlledIds,
+	defaultSelectedIds = [],
+	onSelectionChange,
+}: TSelectionOptions<D>): TSelection {
+	const [uncontrolledIds, setUncontrolledIds] = useState(defaultSelectedIds);
+	const selectedIds = controlledIds ?? uncontrolledIds;
+	const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+	const setSelectedIds = useCallback((nextIds: TID[]) => {
+		if (!controlledIds) setUncontrolledIds(nextIds);
+		onSelectionChange?.(nextIds);
+	}, [controlledIds, onSelectionChange]);
+
+	// Stable handlers, so a selection change rerenders only the selected and deselected items
+	const latest = useLatest<TLatest>({ items, selectedIds, selectionMode, setSelectedIds });
+
+	// The item the shift-click range starts from
+	const anchorID = useRef<TID | null>(null);
+
+	const select = useCallback((index: number, modifiers: TSelectModifiers = {}) => {
+		const { shiftKey = false, ctrlKey = false, metaKey = false } = modifiers;
+		const l = latest.current;
+		const item = l.items[index] as TData | undefined;
+		if (!l.selectionMode || !item) return;
+
+		if (l.selectionMode === 'single') {
+			anchorID.current = item.id;
+			l.setSelectedIds([item.id]);
+			return;
+		}
+
+		const isToggling = ctrlKey || metaKey;
+		if (shiftKey) {
+			const anchorIndex = l.items.findIndex(i => i.id === anchorID.current);
+			const rangeIds = getRangeIds(l.items, anchorIndex === -1 ? index : anchorIndex, index);
+
+			l.setSelectedIds(isToggling ? [...new Set([...l.selectedIds, ...rangeIds])] : rangeIds);
+			return;
+		}
+
+		anchorID.current = item.id;
+		if (!isToggling) l.setSelectedIds([item.id]);
+		else if (l.selectedIds.includes(item.id)) l.setSelectedIds(l.selectedIds.filter(id => id !== item.id));
+		else l.setSelectedIds([...l.selectedIds, item.id]);
+	}, [latest]);
+
+	const selectAll = useCallback(() => {
+		const l = latest.current;
+		if (l.selectionMode === 'multiple') l.setSelectedIds(l.items.map(item => item.id));
+	}, [latest]);
+
+	const clearSelection = useCallback(() => {
+		anchorID.current = null;
+		latest.current.setSelectedIds([]);
+	}, [latest]);
+
+	const isSelected = useCallback((id: TID) => selectedSet.has(id), [selectedSet]);
+
+	return {
+		selectedIds,
+		isSelected,
+		select,
+		selectAll,
+		clearSelection,
+	};
+}
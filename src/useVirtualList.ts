@@ -0,0 +1,1980 @@
+import {
+	useCallback,
+	useEffect,
+	useLayoutEffect,
+	useMemo,
+	useRef,
+	useState,
+} from 'react';
+import {
+	unstable_cancelCallback as cancelCallback,
+	unstable_LowPriority as LowPriority,
+	unstable_scheduleCallback as scheduleCallback,
+	unstable_UserBlockingPriority as UserBlockingPriority,
+} from 'scheduler';
+import { shallowEqualObjects } from 'shallow-equal';
+
+import { createHeightCache, type THeightCache } from './heightCache.ts';
+import { getDefaultMeasurer, type TMeasurer } from './measurer.ts';
+import {
+	createNailPoints,
+	findRowAt,
+	getNailPoint,
+	getTotalHeight,
+	rebuildNailPoints,
+	type TNailPoints,
+	updateNailPoints,
+} from './nailPoints.ts';
+
+export type TID = string | number;
+export type TData = {
+	id: TID;
+	[key: PropertyKey]: unknown;
+};
+
+export type TScrollElement = HTMLElement | React.RefObject<HTMLElement | null>;
+
+export type TOrientation = 'vertical' | 'horizontal';
+
+/**
+ * In the horizontal orientation, `top` and `bottom` refer to the left and right edges,
+ * and `listHeight` refers to the list width.
+ */
+export type TWindowEdges = {
+	top: number;
+	bottom: number;
+	rawTop: number;
+	rawBottom: number;
+	listHeight: number;
+	isInView: boolean;
+};
+
+export type TEstimatedItemHeight<D extends TData = TData> = number | ((data: D, index: number) => number);
+
+export type TScrollAlign = 'start' | 'center' | 'end' | 'auto';
+
+export type TScrollToOptions = {
+	/**
+	 * Where the item should be placed within the viewport.
+	 *
+	 * `auto` scrolls only as much as needed to make the item fully visible.
+	 *
+	 * Defaults to `auto`.
+	 */
+	align?: TScrollAlign;
+	behavior?: ScrollBehavior;
+};
+
+/**
+ * A serializable state of the list that can be used to restore it after remounting.
+ */
+export type TSnapshot = {
+	/** Measured item heights keyed by item `id` */
+	heightCache: Record<TID, number>;
+	/** `id` of the item at the top edge of the viewport */
+	anchorID: TID | null;
+	/** Distance between the anchor item top edge and the viewport top edge */
+	anchorOffset: number;
+};
+
+export type THandle<D extends TData = TData> = {
+	/**
+	 * Scrolls to the item at the given index.
+	 *
+	 * The position is corrected as long as the items around the target are being measured.
+	 */
+	scrollToIndex: (index: number, options?: TScrollToOptions) => void;
+	/**
+	 * Scrolls to the item with the given `id`. Does nothing if there is no such item.
+	 */
+	scrollToId: (id: TID, options?: TScrollToOptions) => void;
+	/**
+	 * Returns the measured heights and the current scroll position.
+	 */
+	getSnapshot: () => TSnapshot;
+	/**
+	 * Applies the measured heights from the snapshot and scrolls back to its position.
+	 */
+	restoreSnapshot: (snapshot: TSnapshot) => void;
+	/**
+	 * Drops the measured heights of the items with the given `id`s, of the items matching the predicate,
+	 * or of all items with `all`, e.g. once the content changes in a way the `ResizeObserver` doesn't catch,
+	 * or a theme switch changes every height.
+	 *
+	 * The rendered items are measured again, while the first visible item stays in place.
+	 */
+	invalidate: (target: TID[] | ((data: D) => boolean) | 'all') => void;
+};
+
+export type TOptions<D extends TData = TData> = {
+	/**
+	 * An array of actual data mapped to all children.
+	 */
+	items: D[];
+	/**
+	 * The estimated height of a single rendered item.
+	 *
+	 * In a best-case scenario, the same as actual item height.
+	 *
+	 * Every item has its dimensions that are being used to calculate the height of a whole list.
+	 * Thanks to that, the browser can allocate necessary space and display the scrollbars.
+	 * It creates an illusion that all elements are present and visible at the same time.
+	 *
+	 * But how can we know the dimensions of an actual item before the initial render?
+	 * Well, we don't. That's where `estimatedItemHeight` kicks in.
+	 * We use a placeholder to compute all necessary values, then
+	 * when the actual items are rendered, we measure them and repeats all calculations.
+	 *
+	 * When the items differ a lot (e.g. one-line rows mixed with image cards),
+	 * pass a function that estimates the height of every item on its own.
+	 * Keep the function reference stable, as changing it recalculates the whole list.
+	 */
+	estimatedItemHeight: TEstimatedItemHeight<D>;
+	/**
+	 * Estimates the unmeasured items from the average height of the already measured ones.
+	 * The estimates below the viewport are refreshed as more items get measured,
+	 * so the scrollbar stays close to the actual list height.
+	 *
+	 * Pass a function returning the item type (e.g. `(data) => data.kind`) to average every type on its own.
+	 * `estimatedItemHeight` is still used until the first item (of a given type) gets measured.
+	 */
+	adaptiveEstimation?: boolean | ((data: D) => TID);
+	/**
+	 * This value increases the overall viewport area.
+	 * Defines how many pixels *beyond the horizon* should be overscaned.
+	 *
+	 * In other words, this is a value that allows you to render more elements than can be actually seen on the screen.
+	 *
+	 * Defaults to `20`.
+	 */
+	overscanPadding?: number;
+	/**
+	 * Extends the overscan in the scroll direction in proportion to the scroll speed,
+	 * so fast scrolling doesn't reveal blank areas, and shrinks it back once the scrolling stops.
+	 *
+	 * `min` defaults to `overscanPadding` and `max` defaults to `1000` pixels.
+	 */
+	adaptiveOverscan?: boolean | { min?: number; max?: number };
+	/**
+	 * An advanced prop that can be used to overwrite the initial `VirtualList` state.
+	 *
+	 * Proceed with caution.
+	 */
+	initState?: Partial<TState<D>>;
+	/**
+	 * A snapshot returned by the `getSnapshot` handle method.
+	 *
+	 * The list mounts with the measured heights and the scroll position from the snapshot,
+	 * so e.g. going back to a list page doesn't make the content jump around.
+	 */
+	initialSnapshot?: TSnapshot;
+	/**
+	 * The number of items rendered before the list gets mounted and measures the viewport,
+	 * e.g. while rendering on the server.
+	 *
+	 * The first render doesn't touch the DOM, so the same slice is rendered on the server and hydrated on the client.
+	 * Once mounted, the list switches to the regular virtualization.
+	 *
+	 * Defaults to `1`.
+	 */
+	initialItemCount?: number;
+	/**
+	 * Same as `initialItemCount`, but the items are counted to fill the given viewport height,
+	 * based on `estimatedItemHeight` or `initialSnapshot`.
+	 *
+	 * Ignored when `initialItemCount` is set.
+	 */
+	initialViewportHeight?: number;
+	/**
+	 * Disables the item measurements and sets `estimatedItemHeight` as an actual element height.
+	 *
+	 * Useful when your list consists of items with equal heights.
+	 */
+	disableMeasurment?: boolean;
+	/**
+	 * The strategy measuring the rendered items, e.g. a fake one in the tests, or one reading the sizes
+	 * of canvas-based items. See `TMeasurer`.
+	 *
+	 * Defaults to a `ResizeObserver`, or to `getBoundingClientRect` where the observer isn't available.
+	 * Keep the same instance between renders, as a new one measures all of the rendered items again.
+	 */
+	measurer?: TMeasurer;
+	/**
+	 * Function invoked at the scroll event.
+	 *
+	 * Keep this function as performant as possible.
+	 */
+	onScroll?: (windowEdges: TWindowEdges) => void;
+	/**
+	 * The element that scrolls the list, or a ref to it.
+	 *
+	 * Use it when the list is rendered inside a container with its own overflow, like a modal or a sidebar.
+	 * The viewport height is then taken from the element's client height.
+	 *
+	 * Defaults to the document.
+	 */
+	scrollElement?: TScrollElement | null;
+	/**
+	 * The direction in which the list is laid out and scrolled.
+	 *
+	 * In the `horizontal` orientation, all height related props and values (e.g. `estimatedItemHeight`)
+	 * refer to the item widths instead.
+	 *
+	 * Defaults to `vertical`.
+	 */
+	orientation?: TOrientation;
+	/**
+	 * Lays the items out in a grid with a fixed number of columns.
+	 *
+	 * Items in a row share the same nail point and the row height is the height of its tallest item.
+	 * Prefer `VirtualGrid`, which requires either this prop or `minColumnWidth`.
+	 *
+	 * Defaults to `1`.
+	 */
+	columnCount?: number;
+	/**
+	 * Lays the items out in a grid with as many columns as can fit in the list,
+	 * while keeping every column at least this wide.
+	 *
+	 * Ignored when `columnCount` is set.
+	 */
+	minColumnWidth?: number;
+	/**
+	 * The list edge that holds the viewport in place.
+	 *
+	 * With `bottom`, the list starts scrolled to its end and keeps following it
+	 * while new items are appended, as long as the user stays at the end.
+	 * Prepending items (e.g. loading an older history) doesn't move the visible content.
+	 *
+	 * Useful for chats and logs.
+	 *
+	 * Defaults to `top`.
+	 */
+	anchor?: 'top' | 'bottom';
+	/**
+	 * Marks the items that are headers of their groups, e.g. "Today" or alphabet letters.
+	 *
+	 * The header of the currently scrolled group sticks to the top of the viewport and stays rendered,
+	 * even when it is far above the visible items. The next header pushes it out once it gets close.
+	 */
+	isStickyHeader?: (data: D) => boolean;
+	/**
+	 * Function invoked when the viewport gets within `reachThreshold` of the list end.
+	 *
+	 * Return a promise to prevent further calls until it settles.
+	 * It won't be called again until the `items` change or the viewport leaves the threshold.
+	 */
+	onEndReached?: () => unknown;
+	/**
+	 * Same as `onEndReached`, but for the list start.
+	 */
+	onStartReached?: () => unknown;
+	/**
+	 * How close to the list edges the `onEndReached` and `onStartReached` functions are invoked.
+	 *
+	 * Either a distance in pixels or `{ items: number }` to count the remaining items instead.
+	 *
+	 * Defaults to `250`.
+	 */
+	reachThreshold?: number | { items: number };
+	/**
+	 * Enables the keyboard navigation between the items with a roving `tabIndex`.
+	 *
+	 * The arrow keys move to the adjacent item (or row in a grid),
+	 * while `Home`, `End`, `PageUp` and `PageDown` jump across the whole list.
+	 * The active item is scrolled into view, stays mounted even when it leaves the rendered range,
+	 * and gets focused once rendered. The items are found by their `data-index` attribute.
+	 */
+	keyboardNavigation?: boolean;
+	/**
+	 * Enables reordering the items by dragging them, and is invoked when an item is dropped at a new position.
+	 *
+	 * Move the item in `items` accordingly, e.g. `items.splice(toIndex, 0, ...items.splice(fromIndex, 1))`.
+	 *
+	 * The drag starts from the `dragHandleProps` of an item, with a pointer or with the `Space` / `Enter` key.
+	 * A keyboard drag is moved with the arrow keys, dropped with `Space` / `Enter` and canceled with `Escape`.
+	 * The list scrolls when the dragged item gets close to the viewport edges,
+	 * and the dragged item stays mounted even when it leaves the rendered range.
+	 *
+	 * Supported in the single column lists only.
+	 */
+	onReorder?: (fromIndex: number, toIndex: number) => void;
+	/**
+	 * Animates the changes of `items`, with the given `duration` in milliseconds (`200` by default) and `easing`.
+	 *
+	 * The items that persist by `id` slide from their old positions to the new ones,
+	 * the inserted items expand in, the removed items collapse out and the list size follows along.
+	 * Nothing is animated when the user prefers reduced motion.
+	 */
+	animateChanges?: boolean | { duration?: number; easing?: string };
+	/**
+	 * The store of the measured heights, see `createHeightCache`.
+	 *
+	 * Pass the same cache to several lists showing the same entities, e.g. a feed and a search result,
+	 * so an item measured by one list is laid out with its actual height by the others.
+	 *
+	 * Defaults to an unbounded cache owned by the list.
+	 */
+	heightCache?: THeightCache;
+	/**
+	 * The size of the content covering the start of the viewport, e.g. a sticky header rendered outside the list.
+	 *
+	 * The items scrolled into view by `scrollToIndex`, `scrollToId` or the keyboard navigation are placed below it.
+	 *
+	 * Defaults to `0`.
+	 */
+	scrollPaddingStart?: number;
+};
+
+export type TVirtualItem<D extends TData = TData> = {
+	data: D;
+	index: number;
+	/** Distance between the list start and the item start edge, i.e. its nail point */
+	offset: number;
+	/** Position of the item within its row, always `0` in a single column list */
+	columnIndex: number;
+	/** Whether the item is the pinned group header, see `isStickyHeader` */
+	isSticky: boolean;
+	isMeasured: boolean;
+	/** Whether the item is the one focusable by the keyboard, see `keyboardNavigation` */
+	isActive: boolean;
+	/** Whether the item is being dragged, see `onReorder` */
+	isDragging: boolean;
+	/**
+	 * Whether the item has been removed and is rendered only until it collapses out, see `animateChanges`.
+	 * Such an item has the `-1` index and must not be measured.
+	 */
+	isExiting: boolean;
+};
+
+export type TVirtualListResult<D extends TData = TData> = {
+	/**
+	 * A ref that has to be attached to the element containing the items.
+	 * It is used to locate the list within the scrolled content.
+	 */
+	rootRef: (element: HTMLElement | null) => void;
+	/**
+	 * The items that should be rendered, ordered by their index.
+	 * The pinned group header comes first when it is out of the visible range.
+	 */
+	virtualItems: Array<TVirtualItem<D>>;
+	/**
+	 * The height of the whole list (or its width in the horizontal orientation).
+	 */
+	totalSize: number;
+	/**
+	 * The number of items laid out in a single row.
+	 */
+	columnCount: number;
+	/**
+	 * Whether the promises returned by `onStartReached` and `onEndReached` are pending.
+	 */
+	pendingLoads: { start: boolean; end: boolean };
+	/**
+	 * The index of the item focusable by the keyboard.
+	 */
+	activeIndex: number;
+	/**
+	 * Event handlers that have to be attached to the element containing the items,
+	 * when the `keyboardNavigation` is enabled.
+	 */
+	navigationProps: {
+		onKeyDown: (event: React.KeyboardEvent) => void;
+		onFocus: (event: React.FocusEvent) => void;
+	};
+	/**
+	 * Event handlers that start dragging the item at the given index, when `onReorder` is set.
+	 *
+	 * Attach them to the whole item or its drag handle. The handle should have `touch-action: none`.
+	 */
+	dragHandlers: {
+		onPointerDown: (index: number, event: React.PointerEvent) => void;
+		onKeyDown: (index: number, event: React.KeyboardEvent) => void;
+	};
+	/**
+	 * Returns a ref that measures the rendered item element with the `measurer`.
+	 * The items with an already known height are observed with a lower priority.
+	 *
+	 * The returned function is stable for the given index.
+	 */
+	measureRef: (index: number) => (element: HTMLElement | null) => void;
+	/**
+	 * Sets the measured height of the item, for the items that are measured manually.
+	 */
+	measureItem: (index: number, height: number) => void;
+	handle: THandle<D>;
+};
+
+type TScrollRequest = {
+	index: number;
+	align: Exclude<TScrollAlign, 'auto'>;
+	behavior?: ScrollBehavior;
+	top?: number;
+};
+
+type TDragState = {
+	index: number;
+	/** The index the item is moved to when dropped right now */
+	targetIndex: number;
+	/** The current position of the dragged item */
+	offset: number;
+	height: number;
+	isKeyboard: boolean;
+};
+
+type TDragPointer = {
+	startClientPos: number;
+	startOffset: number;
+	startRawTop: number;
+	clientPos: number;
+};
+
+type TPosition = {
+	offset: number;
+	columnIndex: number;
+};
+
+type TTransition<D extends TData = TData> = {
+	/** The positions of all items before the change, by their `id` */
+	prevPositions: Map<TID, TPosition>;
+	prevListHeight: number;
+	/** The removed items that were rendered before the change */
+	exiting: Array<TPosition & { data: D }>;
+	duration: number;
+	easing: string;
+};
+
+type TOverscan = {
+	before: number;
+	after: number;
+};
+
+type TScrollVelocity = {
+	rawTop: number;
+	time: number;
+};
+
+type TObservedElement = {
+	element: HTMLElement;
+	/** The scheduled start of the measurement */
+	task: ReturnType<typeof scheduleCallback> | null;
+	stop: (() => void) | null;
+	/** Whether the measurer has reported the size of the element */
+	hasReported: boolean;
+};
+
+type TCacheChanges = {
+	ids: Set<TID>;
+	isCleared: boolean;
+};
+
+type TMeasurement<D extends TData> = {
+	data: D;
+	index: number;
+	height: number;
+};
+
+type TReachedEdge = 'start' | 'end';
+type TReachState = {
+	isPending: boolean;
+	/** `items` at the time of the last call, used to skip the calls until the list changes */
+	items: TData[] | null;
+};
+
+/**
+ * Sums of the measured heights grouped by the item type.
+ */
+type THeightStats = Record<TID, { total: number; count: number }>;
+
+type TState<D extends TData = TData> = {
+	items: D[];
+	estimatedItemHeight: TEstimatedItemHeight<D>;
+	adaptiveEstimation?: boolean | ((data: D) => TID);
+	heightStats: THeightStats | null;
+	/** The heights summed up in `heightStats`, so their changes are applied without going through all of the items */
+	countedHeights: Map<TID, number>;
+	minOverscan: number;
+	maxOverscan: number;
+	/** The current overscan on both sides of the viewport, extended in the scroll direction */
+	overscan: TOverscan;
+	orientation: TOrientation;
+	columnCount: number;
+	isStickyHeader?: (data: D) => boolean;
+	headerIndexes: number[];
+	stickyIndex: number;
+	stickyOffset: number;
+	heightCache: THeightCache;
+	/** The invalidated items that keep their cached heights until they are measured again */
+	staleIds: Set<TID>;
+	isInView: boolean;
+	nailPoints: TNailPoints;
+	listHeight: number;
+	firstIndex: number;
+	lastIndex: number;
+	activeIndex: number;
+	transition: TTransition<D> | null;
+};
+
+const AXES = {
+	vertical: {
+		scroll: 'scrollTop',
+		scrollToKey: 'top',
+		offset: 'offsetTop',
+		rectStart: 'top',
+		clientStart: 'clientTop',
+		clientSize: 'clientHeight',
+		clientCrossSize: 'clientWidth',
+		windowSize: 'innerHeight',
+		size: 'height',
+		translate: (offset: number, columnIndex: number) => `translate(${columnIndex * 100}%, ${offset}px)`,
+		scale: 'scaleY',
+		rectEnd: 'bottom',
+		clientPos: 'clientY',
+		prevKey: 'ArrowUp',
+		nextKey: 'ArrowDown',
+		crossPrevKey: 'ArrowLeft',
+		crossNextKey: 'ArrowRight',
+	},
+	horizontal: {
+		scroll: 'scrollLeft',
+		scrollToKey: 'left',
+		offset: 'offsetLeft',
+		rectStart: 'left',
+		clientStart: 'clientLeft',
+		clientSize: 'clientWidth',
+		clientCrossSize: 'clientHeight',
+		windowSize: 'innerWidth',
+		size: 'width',
+		translate: (offset: number, columnIndex: number) => `translate(${offset}px, ${columnIndex * 100}%)`,
+		scale: 'scaleX',
+		rectEnd: 'right',
+		clientPos: 'clientX',
+		prevKey: 'ArrowLeft',
+		nextKey: 'ArrowRight',
+		crossPrevKey: 'ArrowUp',
+		crossNextKey: 'ArrowDown',
+	},
+} as const;
+
+const getWindowEdges = (
+	rawTop: number,
+	viewportHeight: number,
+	listHeight: number,
+	overscan: TOverscan,
+): TWindowEdges => {
+	const rawBottom = rawTop + viewportHeight;
+
+	const bottom = Math.max(0, Math.min(rawBottom + overscan.after, listHeight));
+	const top = Math.max(0, Math.min(rawTop - overscan.before, bottom));
+	const isInView = bottom !== top;
+
+	return {
+		isInView,
+		top,
+		bottom,
+		rawTop,
+		rawBottom,
+		listHeight,
+	};
+};
+
+/**
+ * Describes the list split into rows, each consisting of `columnCount` items.
+ * The engine operates on rows, so a regular list is just a grid with a single column.
+ */
+type TLayout = {
+	columnCount: number;
+	rowCount: number;
+	getRowHeight: (row: number) => number;
+	isRowMeasured: (row: number) => boolean;
+};
+
+const resolveEstimate = <D extends TData>(estimate: TEstimatedItemHeight<D>, data: D, index: number) => (
+	typeof estimate === 'number' ? estimate : estimate(data, index)
+);
+
+const getItemType = <D extends TData>(adaptiveEstimation: TState<D>['adaptiveEstimation'], data: D) => (
+	typeof adaptiveEstimation === 'function' ? adaptiveEstimation(data) : ''
+);
+
+const addHeightStats = (stats: THeightStats, type: TID, height: number, count: number): THeightStats => {
+	const prev = stats[type] as THeightStats[TID] | undefined;
+	return { ...stats, [type]: { total: (prev?.total ?? 0) + height, count: (prev?.count ?? 0) + count } };
+};
+
+/**
+ * Replaces the counted height of the item, or drops it from the stats when the height is `undefined`.
+ */
+const countHeight = (
+	stats: THeightStats,
+	countedHeights: Map<TID, number>,
+	type: TID,
+	id: TID,
+	height: number | undefined,
+): THeightStats => {
+	const prevHeight = countedHeights.get(id);
+	if (prevHeight === height) return stats;
+	if (height === undefined) countedHeights.delete(id);
+	else countedHeights.set(id, height);
+
+	const countChange = Number(height !== undefined) - Number(prevHeight !== undefined);
+	const nextStats = addHeightStats(stats, type, (height ?? 0) - (prevHeight ?? 0), countChange);
+	// A type without any measured items falls back to the estimate again
+	if (nextStats[type].count > 0) return nextStats;
+	return Object.fromEntries(Object.entries(nextStats).filter(([key]) => key !== String(type)));
+};
+
+/**
+ * Checks whether the learned estimate of any item type has changed.
+ */
+const isEstimateChanged = (prev: THeightStats | null, next: THeightStats | null) => {
+	if (!prev || !next) return prev !== next;
+
+	const getAverage = (stats: THeightStats, type: TID) => {
+		const typeStats = stats[type] as THeightStats[TID] | undefined;
+		return typeStats && Math.round(typeStats.total / typeStats.count);
+	};
+	const types = new Set([...Object.keys(prev), ...Object.keys(next)]);
+	return [...types].some(type => getAverage(prev, type) !== getAverage(next, type));
+};
+
+const getHeightStats = <D extends TData>(
+	items: D[],
+	heightCache: THeightCache,
+	adaptiveEstimation: TState<D>['adaptiveEstimation'],
+): Pick<TState<D>, 'heightStats' | 'countedHeights'> => {
+	const countedHeights = new Map<TID, number>();
+	if (!adaptiveEstimation) return { heightStats: null, countedHeights };
+
+	const heightStats = items.reduce<THeightStats>((stats, item) => {
+		const height = heightCache.peek(item.id);
+		if (height === undefined) return stats;
+
+		countedHeights.set(item.id, height);
+		return addHeightStats(stats, getItemType(adaptiveEstimation, item), height, 1);
+	}, {});
+	return { heightStats, countedHeights };
+};
+
+/**
+ * Writes the snapshot heights into the cache. The snapshot keys are strings, so they're mapped back to the item ids.
+ */
+const applySnapshotHeights = (heights: TSnapshot['heightCache'], items: TData[], heightCache: THeightCache) => {
+	const ids = new Map(items.map(item => [String(item.id), item.id]));
+	Object.entries(heights).forEach(([key, height]) => heightCache.set(ids.get(key) ?? key, height));
+};
+
+/**
+ * Returns the estimate of the unmeasured items, which is learned from the measured ones in the adaptive mode.
+ */
+const getItemEstimate = <D extends TData>({
+	estimatedItemHeight,
+	adaptiveEstimation,
+	heightStats,
+}: Pick<TState<D>, 'estimatedItemHeight' | 'adaptiveEstimation' | 'heightStats'>): TEstimatedItemHeight<D> => {
+	if (!adaptiveEstimation || !heightStats) return estimatedItemHeight;
+
+	return (data, index) => {
+		const stats = heightStats[getItemType(adaptiveEstimation, data)] as THeightStats[TID] | undefined;
+		if (!stats) return resolveEstimate(estimatedItemHeight, data, index);
+
+		return Math.round(stats.total / stats.count);
+	};
+};
+
+const createLayout = <D extends TData>(
+	items: D[],
+	columnCount: number,
+	heightCache: THeightCache,
+	estimatedItemHeight: TEstimatedItemHeight<D>,
+): TLayout => {
+	const getItemHeight = (i: number) => {
+		const item = items[i];
+		return heightCache.peek(item.id) ?? resolveEstimate(estimatedItemHeight, item, i);
+	};
+	const getRowRange = (row: number) => [row * columnCount, Math.min((row + 1) * columnCount, items.length)];
+
+	return {
+		columnCount,
+		rowCount: Math.ceil(items.length / columnCount),
+		getRowHeight: (row) => {
+			const [start, end] = getRowRange(row);
+
+			let height = 0;
+			for (let i = start; i < end; i++) {
+				height = Math.max(height, getItemHeight(i));
+			}
+			return height;
+		},
+		isRowMeasured: (row) => {
+			const [start, end] = getRowRange(row);
+
+			for (let i = start; i < end; i++) {
+				if (!heightCache.peek(items[i].id)) return false;
+			}
+			return true;
+		},
+	};
+};
+
+const getVisibleIndexes = (
+	edges: TWindowEdges,
+	nailPoints: TNailPoints,
+	layout: TLayout,
+) => {
+	const { isInView } = edges;
+	if (!isInView) return { isInView };
+
+	// The edges are inclusive, so the rows ending exactly at the top edge are visible too
+	let firstIndex = findRowAt(nailPoints, edges.top);
+	while (firstIndex > 0 && getNailPoint(nailPoints, firstIndex) >= edges.top) firstIndex--;
+
+	const nailPoint = getNailPoint(nailPoints, firstIndex);
+	const isVisible = edges.top <= nailPoint + layout.getRowHeight(firstIndex) && nailPoint <= edges.bottom;
+	if (layout.rowCount === 0 || !isVisible) return { isInView, firstIndex: NaN, lastIndex: NaN };
+
+	const lastIndex = Math.max(firstIndex, findRowAt(nailPoints, edges.bottom));
+	return { isInView, firstIndex, lastIndex };
+};
+
+/**
+ * Lays out all of the rows from scratch.
+ */
+const createRows = (layout: TLayout) => {
+	const nailPoints = createNailPoints(layout.rowCount, layout.getRowHeight);
+	return { nailPoints, listHeight: getTotalHeight(nailPoints) };
+};
+
+const getHeaderIndexes = <D extends TData>(items: D[], isStickyHeader?: (data: D) => boolean) => {
+	if (!isStickyHeader) return [];
+
+	return items.reduce<number[]>((indexes, item, i) => {
+		if (isStickyHeader(item)) indexes.push(i);
+		return indexes;
+	}, []);
+};
+
+
+const getStickyHeader = (
+	headerIndexes: number[],
+	rawTop: number,
+	nailPoints: TNailPoints,
+	listHeight: number,
+	layout: TLayout,
+) => {
+	const getHeaderRow = (i: number) => Math.floor(headerIndexes[i] / layout.columnCount);
+
+	// Binary search for the last header that starts above the viewport
+	let found = -1;
+	let low = 0;
+	let high = headerIndexes.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		if (getNailPoint(nailPoints, getHeaderRow(mid)) <= rawTop) {
+			found = mid;
+			low = mid + 1;
+		} else {
+			high = mid - 1;
+		}
+	}
+	if (found === -1) return { stickyIndex: -1, stickyOffset: 0 };
+
+	const row = getHeaderRow(found);
+	const groupEnd = (found + 1 < headerIndexes.length)
+		? getNailPoint(nailPoints, getHeaderRow(found + 1))
+		: listHeight;
+	// Stick to the viewport top until the end of the group pushes the header out
+	const stickyOffset = Math.max(
+		getNailPoint(nailPoints, row),
+		Math.min(rawTop, groupEnd - layout.getRowHeight(row)),
+	);
+
+	return { stickyIndex: headerIndexes[found], stickyOffset };
+};
+
+const getReachOffsets = (
+	threshold: NonNullable<TOptions['reachThreshold']>,
+	nailPoints: TNailPoints,
+	listHeight: number,
+	layout: TLayout,
+) => {
+	if (typeof threshold === 'number') return { start: threshold, end: listHeight - threshold };
+
+	const rows = Math.ceil(threshold.items / layout.columnCount);
+	return {
+		start: getNailPoint(nailPoints, rows),
+		end: rows < layout.rowCount ? getNailPoint(nailPoints, layout.rowCount - rows) : 0,
+	};
+};
+
+/**
+ * Returns the index of the item the key moves the focus to, or `null` when the key is unrelated to the navigation.
+ */
+const getNavigationTarget = <D extends TData>(
+	key: string,
+	axis: (typeof AXES)[TOrientation],
+	s: TState<D>,
+	viewportHeight: number,
+) => {
+	const { activeIndex, columnCount } = s;
+	const row = Math.floor(activeIndex / columnCount);
+	const getPageIndex = (direction: number) => {
+		const pageRow = findRowAt(s.nailPoints, getNailPoint(s.nailPoints, row) + direction * viewportHeight);
+		return pageRow * columnCount + activeIndex % columnCount;
+	};
+
+	if (key === axis.nextKey) return activeIndex + columnCount;
+	if (key === axis.prevKey) return activeIndex - columnCount;
+	if (key === axis.crossNextKey && columnCount > 1) return activeIndex + 1;
+	if (key === axis.crossPrevKey && columnCount > 1) return activeIndex - 1;
+	if (key === 'Home') return 0;
+	if (key === 'End') return s.items.length - 1;
+	if (key === 'PageDown') return getPageIndex(1);
+	if (key === 'PageUp') return getPageIndex(-1);
+	return null;
+};
+
+/**
+ * Returns the index the dragged item is moved to, based on which item midpoints its center has passed.
+ */
+const getDropIndex = (center: number, dragIndex: number, nailPoints: TNailPoints, layout: TLayout) => {
+	const row = findRowAt(nailPoints, center);
+	const lastPassed = center >= getNailPoint(nailPoints, row) + layout.getRowHeight(row) / 2 ? row : row - 1;
+
+	return clampIntoRange(layout.rowCount, lastPassed < dragIndex ? lastPassed + 1 : lastPassed);
+};
+
+/**
+ * Returns the position of the gap left for the dragged item at the given index.
+ */
+const getDropOffset = (drag: TDragState, targetIndex: number, nailPoints: TNailPoints, layout: TLayout) => {
+	const offset = getNailPoint(nailPoints, targetIndex);
+	if (targetIndex <= drag.index) return offset;
+	return offset + layout.getRowHeight(targetIndex) - drag.height;
+};
+
+const AUTO_SCROLL_EDGE = 50;
+const AUTO_SCROLL_SPEED = 20;
+
+/**
+ * Returns how much the list should scroll in a single frame, faster the closer the pointer is to the viewport edge.
+ */
+const getAutoScrollDelta = (clientPos: number, viewportStart: number, viewportEnd: number) => {
+	const getSpeed = (distance: number) => AUTO_SCROLL_SPEED * Math.min(1, 1 - distance / AUTO_SCROLL_EDGE);
+
+	if (clientPos - viewportStart < AUTO_SCROLL_EDGE) return -getSpeed(clientPos - viewportStart);
+	if (viewportEnd - clientPos < AUTO_SCROLL_EDGE) return getSpeed(viewportEnd - clientPos);
+	return 0;
+};
+
+const prefersReducedMotion = () => window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+/**
+ * Captures the list before the `items` change, so the change can be animated once the new items are rendered.
+ */
+const createTransition = <D extends TData>(
+	prev: TState<D>,
+	items: D[],
+	animateChanges: NonNullable<TOptions['animateChanges']>,
+): TTransition<D> | null => {
+	if (!animateChanges || prefersReducedMotion()) return null;
+
+	const { duration = 200, easing = 'ease' } = animateChanges === true ? {} : animateChanges;
+	const cols = prev.columnCount;
+	const getPosition = (index: number) => ({
+		offset: getNailPoint(prev.nailPoints, Math.floor(index / cols)),
+		columnIndex: index % cols,
+	});
+
+	const prevPositions = new Map(prev.items.map((data, i) => [data.id, getPosition(i)]));
+	const ids = new Set(items.map(item => item.id));
+	const renderedItems = prev.isInView ? prev.items.slice(prev.firstIndex * cols, (prev.lastIndex + 1) * cols) : [];
+	const exiting = renderedItems.flatMap((data, i) => (
+		ids.has(data.id) ? [] : [{ data, ...getPosition(prev.firstIndex * cols + i) }]
+	));
+
+	return {
+		prevPositions,
+		prevListHeight: prev.listHeight,
+		exiting,
+		duration,
+		easing,
+	};
+};
+
+/** How many milliseconds of the scrolling at the current speed are rendered ahead */
+const OVERSCAN_LOOKAHEAD = 300;
+/** How long after the last scroll event the scrolling is considered stopped */
+const SCROLL_IDLE_DELAY = 150;
+
+const getOverscanLimits = (overscanPadding: number, adaptiveOverscan: TOptions['adaptiveOverscan']) => {
+	if (!adaptiveOverscan) return { minOverscan: overscanPadding, maxOverscan: overscanPadding };
+
+	const { min = overscanPadding, max = 1000 } = adaptiveOverscan === true ? {} : adaptiveOverscan;
+	return { minOverscan: min, maxOverscan: Math.max(min, max) };
+};
+
+/**
+ * Extends the overscan in the scroll direction, with the velocity given in pixels per millisecond.
+ */
+const getOverscan = (minOverscan: number, maxOverscan: number, velocity: number): TOverscan => {
+	const ahead = Math.min(maxOverscan, minOverscan + Math.abs(velocity) * OVERSCAN_LOOKAHEAD);
+
+	return velocity < 0 ? { before: ahead, after: minOverscan } : { before: minOverscan, after: ahead };
+};
+
+const getAlignedTop = (
+	align: TScrollRequest['align'],
+	itemTop: number,
+	itemHeight: number,
+	viewportHeight: number,
+) => {
+	if (align === 'end') return itemTop + itemHeight - viewportHeight;
+	if (align === 'center') return itemTop + (itemHeight - viewportHeight) / 2;
+	return itemTop;
+};
+
+export const resolveScrollElement = (scrollElement?: TScrollElement | null) => {
+	const element = (scrollElement && 'current' in scrollElement) ? scrollElement.current : scrollElement;
+	return element ?? document.documentElement;
+};
+
+/**
+ * Creates the `measureRef` getter, which caches the refs, so every index gets a stable one.
+ */
+const createMeasureRef = (
+	onMeasure: (index: number, height: number) => void,
+	isMeasured: (index: number) => boolean,
+	orientation: TOrientation,
+	measurer: TMeasurer,
+	isMeasurmentDisabled?: boolean,
+) => {
+	const refs = new Map<number, (element: HTMLElement | null) => void>();
+	const observed = new Map<number, TObservedElement>();
+
+	const unobserve = (index: number) => {
+		const entry = observed.get(index);
+		if (!entry) return;
+
+		if (entry.task) cancelCallback(entry.task);
+		entry.stop?.();
+		observed.delete(index);
+	};
+
+	const observe = (index: number, element: HTMLElement) => {
+		const entry: TObservedElement = { element, task: null, stop: null, hasReported: false };
+		const start = () => {
+			entry.task = null;
+			entry.stop = measurer.observe(element, orientation, (height) => {
+				if (height === 0) return;
+
+				entry.hasReported = true;
+				onMeasure(index, height);
+			});
+		};
+		observed.set(index, entry);
+
+		// The one-shot measurers read the layout right away, before the paint
+		if (measurer.isOneShot) return start();
+		// Use lower priority for already cached items
+		entry.task = scheduleCallback(isMeasured(index) ? LowPriority : UserBlockingPriority, start);
+	};
+
+	const measureRef = (index: number) => {
+		let ref = refs.get(index);
+		if (ref) return ref;
+
+		ref = (element) => {
+			unobserve(index);
+			if (element && !isMeasurmentDisabled) observe(index, element);
+		};
+		refs.set(index, ref);
+		return ref;
+	};
+
+	/**
+	 * Observes the elements with the invalidated heights again, as the observer reports only the size changes.
+	 * The one-shot measurers don't notice any changes, so all of the elements are measured again.
+	 */
+	const remeasure = () => {
+		// The observed elements are copied, as observing an element again moves it to the end of the map
+		[...observed].forEach(([index, { element, hasReported }]) => {
+			if (!measurer.isOneShot && (!hasReported || isMeasured(index))) return;
+
+			unobserve(index);
+			observe(index, element);
+		});
+	};
+
+	return { measureRef, remeasure };
+};
+
+/**
+ * Returns the item of the list containing the element, skipping the items of the lists nested within it.
+ */
+const getOwnItemElement = (rootEl: HTMLElement, element: Element | null) => {
+	let itemEl = element;
+	while (itemEl && itemEl.parentElement !== rootEl) itemEl = itemEl.parentElement;
+	return itemEl instanceof HTMLElement && itemEl.dataset.index !== undefined ? itemEl : null;
+};
+
+/**
+ * Checks for a promise, including the ones of the other libraries or realms, which fail the `instanceof` check.
+ */
+const isThenable = (value: unknown): value is PromiseLike<unknown> => (
+	typeof (value as PromiseLike<unknown> | null | undefined)?.then === 'function'
+);
+
+// Older React versions warn about `useLayoutEffect` rendered on the server
+export const useIsomorphicLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
+
+const clampIntoRange = (length: number, value: number) => Math.max(0, Math.min(value, length - 1));
+
+/**
+ * The headless engine of `VirtualList`.
+ *
+ * Computes which items should be rendered and where, while the markup is completely up to you.
+ * Every rendered item has to be positioned at its `offset` and measured with `measureRef`.
+ */
+export default function useVirtualList<D extends TData>({
+	items,
+	estimatedItemHeight,
+	adaptiveEstimation,
+	overscanPadding = 20,
+	adaptiveOverscan,
+	initState,
+	initialSnapshot,
+	initialItemCount,
+	initialViewportHeight,
+	disableMeasurment,
+	measurer = getDefaultMeasurer(),
+	onScroll,
+	scrollElement,
+	orientation = 'vertical',
+	columnCount,
+	minColumnWidth,
+	anchor = 'top',
+	isStickyHeader,
+	onEndReached,
+	onStartReached,
+	reachThreshold = 250,
+	keyboardNavigation,
+	onReorder,
+	animateChanges = false,
+	heightCache: sharedHeightCache,
+	scrollPaddingStart = 0,
+}: TOptions<D>): TVirtualListResult<D> {
+	const rootElRef = useRef<HTMLElement>(null);
+	const rootRef = useCallback((element: HTMLElement | null) => {
+		rootElRef.current = element;
+	}, []);
+	const [ownHeightCache] = useState(createHeightCache);
+	const heightCache = sharedHeightCache ?? ownHeightCache;
+	const [state, setState] = useState<TState<D>>(() => {
+		if (initialSnapshot) applySnapshotHeights(initialSnapshot.heightCache, items, heightCache);
+		const { heightStats, countedHeights } = getHeightStats(items, heightCache, adaptiveEstimation);
+		const estimate = getItemEstimate({ estimatedItemHeight, adaptiveEstimation, heightStats });
+		const layout = createLayout(items, columnCount ?? 1, heightCache, estimate);
+		const { nailPoints, listHeight } = createRows(layout);
+		const { minOverscan, maxOverscan } = getOverscanLimits(overscanPadding, adaptiveOverscan);
+
+		// Everything has to be derived from the props, so the server and the client render the same slice
+		let lastIndex = 0;
+		if (initialItemCount) lastIndex = Math.ceil(initialItemCount / layout.columnCount) - 1;
+		else if (initialViewportHeight) lastIndex = findRowAt(nailPoints, initialViewportHeight);
+
+		return {
+			items,
+			estimatedItemHeight,
+			adaptiveEstimation,
+			heightStats,
+			countedHeights,
+			minOverscan,
+			maxOverscan,
+			overscan: getOverscan(minOverscan, maxOverscan, 0),
+			orientation,
+			columnCount: columnCount ?? 1,
+			isStickyHeader,
+			headerIndexes: getHeaderIndexes(items, isStickyHeader),
+			stickyIndex: -1,
+			stickyOffset: 0,
+			heightCache,
+			staleIds: new Set(),
+			isInView: items.length > 0,
+			nailPoints,
+			listHeight,
+			firstIndex: 0,
+			lastIndex: clampIntoRange(layout.rowCount, lastIndex),
+			activeIndex: 0,
+			transition: null,
+			...initState,
+		};
+	});
+	const pendingState = useRef<TState<D>>(state);
+	const setBothStates = useCallback((nextState: TState<D>) => {
+		pendingState.current = nextState;
+		setState(nextState);
+	}, []);
+
+	const axis = AXES[orientation];
+	const getScrollElement = useCallback(() => resolveScrollElement(scrollElement), [scrollElement]);
+	const getViewportHeight = useCallback(() => {
+		const scrollEl = getScrollElement();
+		return scrollEl === document.documentElement ? window[axis.windowSize] : scrollEl[axis.clientSize];
+	}, [axis, getScrollElement]);
+
+	const pendingScrollTop = useRef<number | null>(null);
+	const getScrollTop = useCallback(
+		() => pendingScrollTop.current ?? getScrollElement()[axis.scroll],
+		[axis, getScrollElement],
+	);
+	const getRawTop = useCallback(() => {
+		const rootEl = rootElRef.current;
+		const scrollEl = getScrollElement();
+		if (!rootEl) return getScrollTop();
+		if (scrollEl === document.documentElement) return getScrollTop() - rootEl[axis.offset];
+
+		// The root element offset within the scrolled content of a custom container
+		const rootStart = rootEl.getBoundingClientRect()[axis.rectStart];
+		const scrollElStart = scrollEl.getBoundingClientRect()[axis.rectStart];
+		const offsetTop = rootStart - scrollElStart - scrollEl[axis.clientStart] + scrollEl[axis.scroll];
+		return getScrollTop() - offsetTop;
+	}, [axis, getScrollElement, getScrollTop]);
+
+	const isPinnedToEnd = useRef(anchor === 'bottom');
+	const getScrollTopAtEnd = useCallback(
+		(listHeight: number) => Math.max(0, getScrollTop() - getRawTop() + listHeight - getViewportHeight()),
+		[getRawTop, getScrollTop, getViewportHeight],
+	);
+
+	const getColumnCount = useCallback(() => {
+		const rootEl = rootElRef.current;
+		if (columnCount) return columnCount;
+		if (!minColumnWidth || !rootEl) return pendingState.current.columnCount;
+
+		return Math.max(1, Math.floor(rootEl[axis.clientCrossSize] / minColumnWidth));
+	}, [axis, columnCount, minColumnWidth]);
+
+	// The measurements are batched, so a flood of resizes (e.g. the whole list reflowing) is applied at once
+	const pendingMeasurements = useRef(new Map<TID, TMeasurement<D>>());
+	// The heights changed by the other lists sharing the cache
+	const pendingCacheChanges = useRef<TCacheChanges>({ ids: new Set(), isCleared: false });
+	const measurementTask = useRef<ReturnType<typeof scheduleCallback> | null>(null);
+
+	// The indexes of the items by their `id`, built again once the items change
+	const itemIndexes = useRef<{ items: D[]; indexes: Map<TID, number> } | null>(null);
+	const getItemIndex = useCallback((id: TID) => {
+		const { items: currentItems } = pendingState.current;
+		if (itemIndexes.current?.items !== currentItems) {
+			const indexes = new Map(currentItems.map((item, i) => [item.id, i]));
+			itemIndexes.current = { items: currentItems, indexes };
+		}
+		return itemIndexes.current.indexes.get(id) ?? -1;
+	}, []);
+
+	const isWritingCache = useRef(false);
+	const writeHeightCache = useCallback((write: () => void) => {
+		isWritingCache.current = true;
+		try {
+			write();
+		} finally {
+			isWritingCache.current = false;
+		}
+	}, []);
+
+	const flushMeasurements = useCallback(() => {
+		const measurements = pendingMeasurements.current;
+		const cacheChanges = pendingCacheChanges.current;
+		pendingMeasurements.current = new Map();
+		pendingCacheChanges.current = { ids: new Set(), isCleared: false };
+		measurementTask.current = null;
+
+		const s = pendingState.current;
+		const cols = s.columnCount;
+		const cache = s.heightCache;
+		let { heightStats, countedHeights } = s;
+		const changedIds = new Set(cacheChanges.ids);
+		const changedRows: number[] = [];
+		// The stale items are up to date once measured again, even when their heights haven't changed
+		const staleIds = [...s.staleIds].some(id => measurements.has(id))
+			? new Set([...s.staleIds].filter(id => !measurements.has(id)))
+			: s.staleIds;
+		writeHeightCache(() => measurements.forEach(({ data, index, height }, id) => {
+			if (cache.peek(id) === height) return;
+
+			cache.set(id, height);
+			changedIds.add(id);
+
+			// The index is outdated once the items change before the flush
+			const isIndexValid = (s.items[index] as D | undefined)?.id === id;
+			const itemIndex = isIndexValid ? index : getItemIndex(id);
+			if (itemIndex === -1) return;
+
+			changedRows.push(Math.floor(itemIndex / cols));
+			if (heightStats) {
+				const type = getItemType(s.adaptiveEstimation, data);
+				heightStats = countHeight(heightStats, countedHeights, type, id, height);
+			}
+		}));
+
+		// Only the items of this list changed by the other lists are counted, as the rest don't affect its layout
+		const { ids: changedElsewhere, isCleared } = cacheChanges;
+		if (isCleared) {
+			({ heightStats, countedHeights } = getHeightStats(s.items, cache, s.adaptiveEstimation));
+			changedRows.push(0);
+		} else {
+			changedElsewhere.forEach((id) => {
+				const itemIndex = getItemIndex(id);
+				if (itemIndex === -1) return;
+
+				changedRows.push(Math.floor(itemIndex / cols));
+				if (heightStats) {
+					const type = getItemType(s.adaptiveEstimation, s.items[itemIndex]);
+					heightStats = countHeight(heightStats, countedHeights, type, id, cache.peek(id));
+				}
+			});
+		}
+		if (changedRows.length === 0) {
+			if (staleIds !== s.staleIds) setBothStates({ ...s, staleIds });
+			return;
+		}
+		changedRows.sort((a, b) => a - b);
+
+		// A changed estimate moves all of the unmeasured rows, so they are rebuilt from the first changed one
+		const layout = createLayout(s.items, cols, cache, getItemEstimate({ ...s, heightStats }));
+		const nailPoints = isCleared || isEstimateChanged(s.heightStats, heightStats)
+			? rebuildNailPoints(s.nailPoints, changedRows[0], layout.getRowHeight)
+			: updateNailPoints(s.nailPoints, changedRows, layout.getRowHeight);
+		const listHeight = getTotalHeight(nailPoints);
+
+		// Keep the first visible item with an already known height at the same position within the viewport,
+		// or the end of the list, once the viewport reaches it
+		const rawTop = getRawTop();
+		const isRowSettled = (row: number) => s.items
+			.slice(row * cols, (row + 1) * cols)
+			.every(item => !changedIds.has(item.id) && cache.peek(item.id) !== undefined);
+
+		let anchorRow = findRowAt(s.nailPoints, rawTop);
+		for (let row = anchorRow; row <= s.lastIndex; row++) {
+			if (!isRowSettled(row)) continue;
+			anchorRow = row;
+			break;
+		}
+		const isAtEnd = rawTop > 0 && rawTop + getViewportHeight() >= s.listHeight;
+		const anchorShift = isAtEnd
+			? listHeight - s.listHeight
+			: getNailPoint(nailPoints, anchorRow) - getNailPoint(s.nailPoints, anchorRow);
+
+		if (isPinnedToEnd.current) pendingScrollTop.current = getScrollTopAtEnd(listHeight);
+		else if (anchorShift !== 0) pendingScrollTop.current = getScrollTop() + anchorShift;
+
+		const edges = getWindowEdges(getRawTop(), getViewportHeight(), listHeight, s.overscan);
+		const indexes = getVisibleIndexes(edges, nailPoints, layout);
+		const sticky = getStickyHeader(s.headerIndexes, edges.rawTop, nailPoints, listHeight, layout);
+
+		setBothStates({ ...s, heightStats, countedHeights, staleIds, nailPoints, listHeight, ...indexes, ...sticky });
+	}, [
+		getItemIndex,
+		getScrollTop,
+		getRawTop,
+		getScrollTopAtEnd,
+		getViewportHeight,
+		setBothStates,
+		writeHeightCache,
+	]);
+
+	const handleItemMeasure = useCallback((entryIndex: number, entryHeight: number) => {
+		const data = pendingState.current.items[entryIndex] as D | undefined;
+		if (!data) return;
+
+		pendingMeasurements.current.set(data.id, { data, index: entryIndex, height: entryHeight });
+		measurementTask.current ??= scheduleCallback(UserBlockingPriority, flushMeasurements);
+	}, [flushMeasurements]);
+
+	useEffect(() => () => {
+		if (measurementTask.current) cancelCallback(measurementTask.current);
+	}, []);
+
+	const handleCacheChange = useCallback((id: TID | null) => {
+		if (isWritingCache.current) return;
+
+		const changes = pendingCacheChanges.current;
+		if (id === null) changes.isCleared = true;
+		else changes.ids.add(id);
+		measurementTask.current ??= scheduleCallback(UserBlockingPriority, flushMeasurements);
+	}, [flushMeasurements]);
+
+	useEffect(() => state.heightCache.subscribe(handleCacheChange), [state.heightCache, handleCacheChange]);
+
+	const reachState = useRef<Record<TReachedEdge, TReachState>>({
+		start: { isPending: false, items: null },
+		end: { isPending: false, items: null },
+	});
+	const [pendingLoads, setPendingLoads] = useState<Record<TReachedEdge, boolean>>({ start: false, end: false });
+
+	const checkReachedEdges = useCallback((edges: TWindowEdges) => {
+		const s = pendingState.current;
+		const layout = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s));
+		const offsets = getReachOffsets(reachThreshold, s.nailPoints, s.listHeight, layout);
+
+		const reach = (edge: TReachedEdge, isReached: boolean, callback?: () => unknown) => {
+			const r = reachState.current[edge];
+			if (!callback) return;
+			if (!isReached) {
+				if (!r.isPending) r.items = null;
+				return;
+			}
+			if (r.isPending || r.items === s.items) return;
+
+			r.items = s.items;
+			const result = callback();
+			if (!isThenable(result)) return;
+
+			r.isPending = true;
+			setPendingLoads(prev => ({ ...prev, [edge]: true }));
+
+			const settle = () => {
+				r.isPending = false;
+				setPendingLoads(prev => ({ ...prev, [edge]: false }));
+			};
+			result.then(settle, settle);
+		};
+
+		reach('start', edges.rawTop <= offsets.start, onStartReached);
+		reach('end', edges.rawBottom >= offsets.end, onEndReached);
+	}, [onEndReached, onStartReached, reachThreshold]);
+
+	const scrollVelocity = useRef<TScrollVelocity>({ rawTop: 0, time: -Infinity });
+	const handleWindowChange = useCallback(() => {
+		let s = pendingState.current;
+		if (!s.items[0]) {
+			checkReachedEdges(getWindowEdges(getRawTop(), getViewportHeight(), 0, s.overscan));
+			return;
+		}
+
+		// Measure the scroll velocity since the last change
+		const rawTop = getRawTop();
+		const now = performance.now();
+		const v = scrollVelocity.current;
+		const elapsed = now - v.time;
+		const velocity = elapsed > 0 ? (rawTop - v.rawTop) / elapsed : 0;
+		v.rawTop = rawTop;
+		v.time = now;
+
+		const overscan = getOverscan(s.minOverscan, s.maxOverscan, velocity);
+		if (!shallowEqualObjects(overscan, s.overscan)) s = { ...s, overscan };
+
+		// The number of columns may depend on the list width, so resizing can reflow the whole grid
+		const nextColumnCount = getColumnCount();
+		if (nextColumnCount !== s.columnCount) {
+			const layout = createLayout(s.items, nextColumnCount, s.heightCache, getItemEstimate(s));
+			const firstIndex = Math.floor(s.firstIndex * s.columnCount / nextColumnCount);
+			s = { ...s, columnCount: nextColumnCount, firstIndex, ...createRows(layout) };
+		}
+
+		const edges = getWindowEdges(rawTop, getViewportHeight(), s.listHeight, s.overscan);
+		onScroll?.(edges);
+		checkReachedEdges(edges);
+
+		if (anchor === 'bottom') isPinnedToEnd.current = edges.rawBottom >= s.listHeight - 1;
+
+		const layout = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s));
+		const indexes = getVisibleIndexes(edges, s.nailPoints, layout);
+		const sticky = getStickyHeader(s.headerIndexes, edges.rawTop, s.nailPoints, s.listHeight, layout);
+
+		const nextState = { ...s, ...indexes, ...sticky };
+		if (shallowEqualObjects(pendingState.current, nextState)) return;
+
+		setBothStates(nextState);
+	}, [anchor, checkReachedEdges, getColumnCount, getRawTop, getViewportHeight, onScroll, setBothStates]);
+
+	const scrollRequest = useRef<TScrollRequest | null>(null);
+	const applyScrollRequest = useCallback(() => {
+		const request = scrollRequest.current;
+		const s = pendingState.current;
+		if (!request) return;
+		if (!s.items[request.index]) {
+			scrollRequest.current = null;
+			return;
+		}
+
+		const itemID = s.items[request.index].id;
+		const row = Math.floor(request.index / s.columnCount);
+		const rowHeight = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s)).getRowHeight(row);
+		const rawTop = getRawTop();
+		// The covered start of the viewport is left out of it
+		const alignedTop = getAlignedTop(
+			request.align,
+			getNailPoint(s.nailPoints, row) - scrollPaddingStart,
+			rowHeight,
+			getViewportHeight() - scrollPaddingStart,
+		);
+		const top = getScrollTop() - rawTop + alignedTop;
+
+		// The target has settled once it is measured and no further correction is needed
+		if (request.top === top) {
+			if (s.heightCache.peek(itemID)) scrollRequest.current = null;
+			return;
+		}
+
+		request.top = top;
+		const scrollEl = getScrollElement();
+		const scrollTarget = scrollEl === document.documentElement ? window : scrollEl;
+		scrollTarget.scrollTo({ [axis.scrollToKey]: top, behavior: request.behavior });
+	}, [axis, getRawTop, getScrollElement, getScrollTop, getViewportHeight, scrollPaddingStart]);
+
+	const restoreSnapshot = useCallback((snapshot: TSnapshot) => {
+		const s = pendingState.current;
+		const cache = s.heightCache;
+		writeHeightCache(() => applySnapshotHeights(snapshot.heightCache, s.items, cache));
+		const { heightStats, countedHeights } = getHeightStats(s.items, cache, s.adaptiveEstimation);
+		const layout = createLayout(s.items, s.columnCount, cache, getItemEstimate({ ...s, heightStats }));
+		const { nailPoints, listHeight } = createRows(layout);
+
+		const anchorIndex = s.items.findIndex(item => item.id === snapshot.anchorID);
+		const anchorRow = Math.floor(Math.max(0, anchorIndex) / s.columnCount);
+		if (anchorIndex !== -1) {
+			pendingScrollTop.current = getScrollTop() - getRawTop()
+				+ getNailPoint(nailPoints, anchorRow) + snapshot.anchorOffset;
+		}
+
+		const edges = getWindowEdges(getRawTop(), getViewportHeight(), listHeight, s.overscan);
+		const indexes = getVisibleIndexes(edges, nailPoints, layout);
+		const sticky = getStickyHeader(s.headerIndexes, edges.rawTop, nailPoints, listHeight, layout);
+
+		setBothStates({ ...s, heightStats, countedHeights, nailPoints, listHeight, ...indexes, ...sticky });
+	}, [getRawTop, getScrollTop, getViewportHeight, setBothStates, writeHeightCache]);
+
+	const scrollToIndex = useCallback<THandle['scrollToIndex']>((index, { align = 'auto', behavior } = {}) => {
+		const s = pendingState.current;
+		if (!s.items[index]) return;
+
+		let resolvedAlign = align;
+		if (resolvedAlign === 'auto') {
+			const rawTop = getRawTop() + scrollPaddingStart;
+			const viewportHeight = getViewportHeight() - scrollPaddingStart;
+			const row = Math.floor(index / s.columnCount);
+			const itemTop = getNailPoint(s.nailPoints, row);
+			const itemHeight = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s))
+				.getRowHeight(row);
+
+			if (itemTop < rawTop || itemHeight > viewportHeight) resolvedAlign = 'start';
+			else if (itemTop + itemHeight > rawTop + viewportHeight) resolvedAlign = 'end';
+			else return; // already fully visible
+		}
+
+		scrollRequest.current = { index, align: resolvedAlign, behavior };
+		applyScrollRequest();
+	}, [applyScrollRequest, getRawTop, getViewportHeight, scrollPaddingStart]);
+
+	const invalidate = useCallback<THandle<D>['invalidate']>((target) => {
+		const s = pendingState.current;
+		const cache = s.heightCache;
+		const cols = s.columnCount;
+		const firstRendered = s.isInView ? s.firstIndex * cols : 0;
+		const rendered = s.isInView ? s.items.slice(firstRendered, (s.lastIndex + 1) * cols) : [];
+		const isTarget = (data: D) => {
+			if (target === 'all') return true;
+			if (typeof target === 'function') return target(data);
+			return target.includes(data.id);
+		};
+
+		// The rendered items keep their heights until they are measured again, so the content doesn't jump meanwhile
+		const staleIds = new Set(s.staleIds);
+		rendered.forEach((item) => {
+			if (cache.peek(item.id) !== undefined && isTarget(item)) staleIds.add(item.id);
+		});
+		setBothStates({ ...s, staleIds });
+
+		// The list is notified about the dropped heights, so they are applied along with the pending measurements.
+		// Only the heights of this list are dropped, as the other lists sharing the cache may still use the rest
+		const targetIds = Array.isArray(target) ? target : s.items.filter(isTarget).map(item => item.id);
+		targetIds.forEach((id) => {
+			if (!staleIds.has(id)) cache.delete(id);
+		});
+
+		if (measurementTask.current) cancelCallback(measurementTask.current);
+		flushMeasurements();
+	}, [flushMeasurements, setBothStates]);
+
+	const handle = useMemo<THandle<D>>(() => ({
+		scrollToIndex,
+		scrollToId: (id, options) => {
+			const index = pendingState.current.items.findIndex(item => item.id === id);
+			if (index !== -1) scrollToIndex(index, options);
+		},
+		getSnapshot: () => {
+			const s = pendingState.current;
+			const rawTop = getRawTop();
+			const anchorRow = findRowAt(s.nailPoints, rawTop);
+
+			return {
+				heightCache: Object.fromEntries(s.items.flatMap((item) => {
+					const height = s.heightCache.peek(item.id);
+					return height === undefined ? [] : [[item.id, height]];
+				})),
+				anchorID: s.items[anchorRow * s.columnCount]?.id ?? null,
+				anchorOffset: rawTop - getNailPoint(s.nailPoints, anchorRow),
+			};
+		},
+		restoreSnapshot,
+		invalidate,
+	}), [getRawTop, invalidate, restoreSnapshot, scrollToIndex]);
+
+	const pendingFocus = useRef<number | null>(null);
+	const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+		const s = pendingState.current;
+		const rootEl = rootElRef.current;
+		if (!keyboardNavigation || !s.items[0] || !rootEl) return;
+
+		// The keys pressed within the items, e.g. in an input, keep their default behavior
+		const { target } = event;
+		if (target !== rootEl && getOwnItemElement(rootEl, target as Element) !== target) return;
+
+		const targetIndex = getNavigationTarget(event.key, axis, s, getViewportHeight());
+		if (targetIndex === null) return;
+		event.preventDefault();
+
+		const activeIndex = clampIntoRange(s.items.length, targetIndex);
+		pendingFocus.current = activeIndex;
+		scrollToIndex(activeIndex);
+		setBothStates({ ...pendingState.current, activeIndex });
+	}, [axis, getViewportHeight, keyboardNavigation, scrollToIndex, setBothStates]);
+
+	// Follow the focus moved by a pointer or the Tab key
+	const handleFocus = useCallback((event: React.FocusEvent) => {
+		const s = pendingState.current;
+		const itemEl = rootElRef.current && getOwnItemElement(rootElRef.current, event.target);
+		const index = Number(itemEl?.dataset.index);
+		if (!keyboardNavigation || Number.isNaN(index) || index === s.activeIndex) return;
+
+		setBothStates({ ...s, activeIndex: index });
+	}, [keyboardNavigation, setBothStates]);
+
+	const navigationProps = useMemo(
+		() => ({ onKeyDown: handleKeyDown, onFocus: handleFocus }),
+		[handleKeyDown, handleFocus],
+	);
+
+	// Move the focus once the active item gets rendered
+	useEffect(() => {
+		const index = pendingFocus.current;
+		if (index === null) return;
+
+		pendingFocus.current = null;
+		const itemEl = rootElRef.current?.querySelector<HTMLElement>(`:scope > [data-index="${index}"]`);
+		itemEl?.focus({ preventScroll: true });
+	}, [state]);
+
+	const [drag, setDrag] = useState<TDragState | null>(null);
+	const pendingDrag = useRef<TDragState | null>(null);
+	const setBothDrags = useCallback((nextDrag: TDragState | null) => {
+		pendingDrag.current = nextDrag;
+		setDrag(nextDrag);
+	}, []);
+	const dragPointer = useRef<TDragPointer | null>(null);
+
+	const startDrag = useCallback((index: number, isKeyboard: boolean) => {
+		const s = pendingState.current;
+		if (!onReorder || pendingDrag.current || !s.items[index] || s.columnCount > 1) return false;
+
+		const layout = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s));
+		const height = layout.getRowHeight(index);
+		setBothDrags({ index, targetIndex: index, offset: getNailPoint(s.nailPoints, index), height, isKeyboard });
+		return true;
+	}, [onReorder, setBothDrags]);
+
+	const endDrag = useCallback((isDropped: boolean) => {
+		const d = pendingDrag.current;
+		dragPointer.current = null;
+		setBothDrags(null);
+
+		if (isDropped && d && d.targetIndex !== d.index) onReorder?.(d.index, d.targetIndex);
+	}, [onReorder, setBothDrags]);
+
+	const updatePointerDrag = useCallback(() => {
+		const d = pendingDrag.current;
+		const p = dragPointer.current;
+		if (!d || !p) return;
+
+		// Follow the pointer, including the distance scrolled since the drag started
+		const s = pendingState.current;
+		const layout = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s));
+		const distance = p.clientPos - p.startClientPos + getRawTop() - p.startRawTop;
+		const offset = Math.max(0, Math.min(p.startOffset + distance, s.listHeight - d.height));
+		const targetIndex = getDropIndex(offset + d.height / 2, d.index, s.nailPoints, layout);
+		if (offset === d.offset && targetIndex === d.targetIndex) return;
+
+		setBothDrags({ ...d, offset, targetIndex });
+	}, [getRawTop, setBothDrags]);
+
+	const handleDragPointerDown = useCallback((index: number, event: React.PointerEvent) => {
+		if (event.button !== 0 || !startDrag(index, false)) return;
+		event.preventDefault(); // don't select the text while dragging
+
+		const clientPos = event[axis.clientPos];
+		const startOffset = getNailPoint(pendingState.current.nailPoints, index);
+		dragPointer.current = { startClientPos: clientPos, clientPos, startOffset, startRawTop: getRawTop() };
+	}, [axis, getRawTop, startDrag]);
+
+	const handleDragKeyDown = useCallback((index: number, event: React.KeyboardEvent) => {
+		const d = pendingDrag.current;
+		const s = pendingState.current;
+		const isGrabKey = event.key === ' ' || event.key === 'Enter';
+		const isMoveKey = event.key === axis.prevKey || event.key === axis.nextKey;
+
+		if (!d && isGrabKey) {
+			if (!startDrag(index, true)) return;
+		} else if (d && event.key === 'Escape') {
+			endDrag(false);
+		} else if (d?.isKeyboard && isGrabKey) {
+			endDrag(true);
+		} else if (d?.isKeyboard && isMoveKey) {
+			const step = event.key === axis.nextKey ? 1 : -1;
+			const targetIndex = clampIntoRange(s.items.length, d.targetIndex + step);
+			const layout = createLayout(s.items, s.columnCount, s.heightCache, getItemEstimate(s));
+
+			setBothDrags({ ...d, targetIndex, offset: getDropOffset(d, targetIndex, s.nailPoints, layout) });
+			scrollToIndex(targetIndex);
+		} else {
+			return;
+		}
+
+		event.preventDefault();
+		event.stopPropagation(); // don't move the keyboard navigation along
+	}, [axis, endDrag, scrollToIndex, setBothDrags, startDrag]);
+
+	const dragHandlers = useMemo(
+		() => ({ onPointerDown: handleDragPointerDown, onKeyDown: handleDragKeyDown }),
+		[handleDragPointerDown, handleDragKeyDown],
+	);
+
+	const isPointerDragging = !!drag && !drag.isKeyboard;
+	useEffect(() => {
+		if (!isPointerDragging) return;
+
+		const scrollEl = getScrollElement();
+		const scrollTarget = scrollEl === document.documentElement ? document : scrollEl;
+
+		const handlePointerMove = (event: PointerEvent) => {
+			if (dragPointer.current) dragPointer.current.clientPos = event[axis.clientPos];
+			updatePointerDrag();
+		};
+		const handlePointerUp = () => endDrag(true);
+		const handlePointerCancel = () => endDrag(false);
+
+		let frame = 0;
+		const autoScroll = () => {
+			const p = dragPointer.current;
+			if (p) {
+				const viewportStart = scrollEl === document.documentElement
+					? 0
+					: scrollEl.getBoundingClientRect()[axis.rectStart] + scrollEl[axis.clientStart];
+				const delta = getAutoScrollDelta(p.clientPos, viewportStart, viewportStart + getViewportHeight());
+
+				if (delta !== 0) {
+					scrollEl[axis.scroll] += delta;
+					updatePointerDrag();
+				}
+			}
+			frame = requestAnimationFrame(autoScroll);
+		};
+		frame = requestAnimationFrame(autoScroll);
+
+		window.addEventListener('pointermove', handlePointerMove);
+		window.addEventListener('pointerup', handlePointerUp);
+		window.addEventListener('pointercancel', handlePointerCancel);
+		scrollTarget.addEventListener('scroll', updatePointerDrag);
+
+		return () => {
+			cancelAnimationFrame(frame);
+			window.removeEventListener('pointermove', handlePointerMove);
+			window.removeEventListener('pointerup', handlePointerUp);
+			window.removeEventListener('pointercancel', handlePointerCancel);
+			scrollTarget.removeEventListener('scroll', updatePointerDrag);
+		};
+	}, [isPointerDragging, axis, endDrag, getScrollElement, getViewportHeight, updatePointerDrag]);
+
+	// The dragged index is no longer valid once the items change
+	useEffect(() => {
+		if (pendingDrag.current) endDrag(false);
+	}, [state.items]); // eslint-disable-line react-hooks/exhaustive-deps
+
+	// Keep correcting the requested position as the items get measured
+	useEffect(applyScrollRequest, [state, applyScrollRequest]);
+
+	// Restore the scroll position before the first paint. The snapshot is used only at the list init
+	useIsomorphicLayoutEffect(() => {
+		if (initialSnapshot) restoreSnapshot(initialSnapshot);
+	}, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+	// Recalculate the state once the DOM has been rendered
+	useEffect(() => {
+		if (anchor === 'bottom' && !initialSnapshot) {
+			pendingScrollTop.current = getScrollTopAtEnd(pendingState.current.listHeight);
+		}
+		handleWindowChange();
+	}, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+	// The list may still be within the threshold after the items change or a load settles
+	useEffect(handleWindowChange, [state.items, pendingLoads]); // eslint-disable-line react-hooks/exhaustive-deps
+
+	useEffect(() => {
+		const scrollEl = getScrollElement();
+		const scrollTarget = scrollEl === document.documentElement ? document : scrollEl;
+
+		// The user takes over the scrolling, so stop correcting the requested position
+		const cancelScrollRequest = () => {
+			scrollRequest.current = null;
+		};
+
+		// Shrink the adaptive overscan back once the scrolling stops
+		let idleTimeout: ReturnType<typeof setTimeout> | undefined;
+		const handleScroll = () => {
+			handleWindowChange();
+
+			const s = pendingState.current;
+			clearTimeout(idleTimeout);
+			if (s.maxOverscan > s.minOverscan) idleTimeout = setTimeout(handleWindowChange, SCROLL_IDLE_DELAY);
+		};
+
+		scrollTarget.addEventListener('scroll', handleScroll);
+		scrollTarget.addEventListener('wheel', cancelScrollRequest, { passive: true });
+		scrollTarget.addEventListener('touchstart', cancelScrollRequest, { passive: true });
+		window.addEventListener('resize', handleWindowChange);
+
+		return () => {
+			scrollTarget.removeEventListener('scroll', handleScroll);
+			scrollTarget.removeEventListener('wheel', cancelScrollRequest);
+			scrollTarget.removeEventListener('touchstart', cancelScrollRequest);
+			window.removeEventListener('resize', handleWindowChange);
+			clearTimeout(idleTimeout);
+		};
+	}, [getScrollElement, handleWindowChange]);
+
+	useIsomorphicLayoutEffect(() => {
+		if (pendingScrollTop.current === null) return;
+
+		getScrollElement()[axis.scroll] = pendingScrollTop.current;
+		pendingScrollTop.current = null;
+	}, [state, axis, getScrollElement]);
+
+	// FLIP the rendered items from their old positions to the new ones.
+	// The transition is committed along with the items and the layout it animates, so it runs once per transition
+	useIsomorphicLayoutEffect(() => {
+		const { transition } = state;
+		const rootEl = rootElRef.current;
+		if (!transition || !rootEl || !('animate' in rootEl)) return;
+
+		const timing = { duration: transition.duration, easing: transition.easing };
+		rootEl.animate({ [axis.size]: [`${transition.prevListHeight}px`, `${state.listHeight}px`] }, timing);
+
+		rootEl.querySelectorAll<HTMLElement>('[data-index]').forEach((element) => {
+			const index = Number(element.dataset.index);
+			const { transform } = element.style;
+			const collapsed = `${transform} ${axis.scale}(0)`;
+
+			if (index === -1) {
+				const keyframes = { opacity: [1, 0], transform: [transform, collapsed] };
+				element.animate(keyframes, { ...timing, fill: 'forwards' });
+				return;
+			}
+
+			const data = state.items[index] as D | undefined;
+			if (!data) return;
+
+			const prevPosition = transition.prevPositions.get(data.id);
+			if (!prevPosition) {
+				element.animate({ opacity: [0, 1], transform: [collapsed, transform] }, timing);
+				return;
+			}
+
+			const row = Math.floor(index / state.columnCount);
+			const offsetDiff = prevPosition.offset - getNailPoint(state.nailPoints, row);
+			const columnDiff = prevPosition.columnIndex - index % state.columnCount;
+			if (offsetDiff === 0 && columnDiff === 0) return;
+
+			const moved = `${axis.translate(offsetDiff, columnDiff)} ${transform}`;
+			element.animate({ transform: [moved, transform] }, timing);
+		});
+
+		// The removed items are unmounted once they collapse out
+		const timeout = setTimeout(() => {
+			setBothStates({ ...pendingState.current, transition: null });
+		}, transition.duration);
+
+		return () => clearTimeout(timeout);
+	}, [state.transition]); // eslint-disable-line react-hooks/exhaustive-deps
+
+	const isItemMeasured = useCallback((index: number) => {
+		const s = pendingState.current;
+		const data = s.items[index] as D | undefined;
+		return !data || (s.heightCache.peek(data.id) !== undefined && !s.staleIds.has(data.id));
+	}, []);
+
+	const { measureRef, remeasure } = useMemo(
+		// eslint-disable-next-line react-hooks/refs
+		() => createMeasureRef(handleItemMeasure, isItemMeasured, orientation, measurer, disableMeasurment),
+		[handleItemMeasure, isItemMeasured, orientation, measurer, disableMeasurment],
+	);
+
+	// The one-shot measurers don't notice the later changes, so the items are measured after every render
+	useIsomorphicLayoutEffect(() => {
+		if (measurer.isOneShot) remeasure();
+	});
+
+	// Observe the invalidated items again, once they are dropped from the cache
+	useEffect(() => {
+		if (!measurer.isOneShot) remeasure();
+	}, [measurer, remeasure, state.items, state.heightCache, state.staleIds, state.nailPoints]);
+
+	let s = state;
+	const { minOverscan, maxOverscan } = getOverscanLimits(overscanPadding, adaptiveOverscan);
+	const nextColumnCount = getColumnCount(); // eslint-disable-line react-hooks/refs
+	if (
+		items !== s.items
+		|| estimatedItemHeight !== s.estimatedItemHeight
+		|| adaptiveEstimation !== s.adaptiveEstimation
+		|| minOverscan !== s.minOverscan
+		|| maxOverscan !== s.maxOverscan
+		|| orientation !== s.orientation
+		|| nextColumnCount !== s.columnCount
+		|| isStickyHeader !== s.isStickyHeader
+		|| heightCache !== s.heightCache
+	) {
+		// Measured heights are useless once the list is laid out in another direction.
+		// Only the items of this list are dropped, as the other lists sharing the cache keep their orientation
+		// eslint-disable-next-line react-hooks/refs
+		if (orientation !== s.orientation) writeHeightCache(() => items.forEach(item => heightCache.delete(item.id)));
+		const { heightStats, countedHeights } = getHeightStats(items, heightCache, adaptiveEstimation);
+		const estimate = getItemEstimate({ estimatedItemHeight, adaptiveEstimation, heightStats });
+		const layout = createLayout(items, nextColumnCount, heightCache, estimate);
+
+		const firstIndex = clampIntoRange(layout.rowCount, s.firstIndex);
+		const lastIndex = clampIntoRange(layout.rowCount, s.lastIndex);
+		const { nailPoints, listHeight } = createRows(layout);
+
+		const isFollowingEnd = anchor === 'bottom' && isPinnedToEnd.current; // eslint-disable-line react-hooks/refs
+		if (isFollowingEnd) {
+			pendingScrollTop.current = getScrollTopAtEnd(listHeight); // eslint-disable-line react-hooks/refs
+		} else if (anchor === 'bottom') {
+			// Keep the first rendered item at the same position, so prepending items doesn't move the content
+			const anchorID = s.items[s.firstIndex * s.columnCount]?.id;
+			const anchorIndex = items.findIndex(item => item.id === anchorID);
+
+			if (anchorIndex !== -1) {
+				const anchorRow = Math.floor(anchorIndex / nextColumnCount);
+				const anchorShift = getNailPoint(nailPoints, anchorRow) - getNailPoint(s.nailPoints, s.firstIndex);
+				pendingScrollTop.current = getScrollTop() + anchorShift; // eslint-disable-line react-hooks/refs
+			}
+		}
+		const overscan = getOverscan(minOverscan, maxOverscan, 0);
+		// eslint-disable-next-line react-hooks/refs
+		const edges = getWindowEdges(getRawTop(), getViewportHeight(), listHeight, overscan);
+		const indexes = getVisibleIndexes(edges, nailPoints, layout);
+		const headerIndexes = getHeaderIndexes(items, isStickyHeader);
+		const sticky = getStickyHeader(headerIndexes, edges.rawTop, nailPoints, listHeight, layout);
+
+		s = {
+			...s,
+			items,
+			estimatedItemHeight,
+			adaptiveEstimation,
+			heightStats,
+			countedHeights,
+			minOverscan,
+			maxOverscan,
+			overscan,
+			orientation,
+			columnCount: nextColumnCount,
+			isStickyHeader,
+			headerIndexes,
+			heightCache,
+			nailPoints,
+			listHeight,
+			firstIndex,
+			lastIndex,
+			activeIndex: clampIntoRange(items.length, s.activeIndex),
+			transition: items === s.items ? s.transition : createTransition(s, items, animateChanges),
+			...indexes,
+			...sticky,
+		};
+		setBothStates(s); // eslint-disable-line react-hooks/refs
+	}
+
+	const cols = s.columnCount;
+	const firstItemIndex = s.firstIndex * cols;
+	const lastItemIndex = (s.lastIndex + 1) * cols - 1;
+	const { stickyIndex } = s;
+	const isOutOfRange = (index: number) => !s.isInView || index < firstItemIndex || index > lastItemIndex;
+	const isStickyOutOfRange = stickyIndex !== -1 && isOutOfRange(stickyIndex);
+
+	const getOffset = (index: number) => {
+		const offset = getNailPoint(s.nailPoints, Math.floor(index / cols));
+		if (index === stickyIndex) return s.stickyOffset;
+		if (!drag) return offset;
+
+		// Make room for the dragged item at its target position
+		if (index === drag.index) return drag.offset;
+		if (drag.index < index && index <= drag.targetIndex) return offset - drag.height;
+		if (drag.targetIndex <= index && index < drag.index) return offset + drag.height;
+		return offset;
+	};
+
+	const toVirtualItem = (data: D, index: number): TVirtualItem<D> => ({
+		data,
+		index,
+		offset: getOffset(index),
+		columnIndex: index % cols,
+		isSticky: index === stickyIndex,
+		isMeasured: !!s.heightCache.get(data.id) && !s.staleIds.has(data.id),
+		isActive: !!keyboardNavigation && index === s.activeIndex,
+		isDragging: index === drag?.index,
+		isExiting: false,
+	});
+
+	const virtualItems = s.isInView
+		? s.items.slice(firstItemIndex, lastItemIndex + 1).map((data, i) => toVirtualItem(data, firstItemIndex + i))
+		: [];
+
+	const keepMounted = (index: number) => {
+		if (!s.items[index] || index === stickyIndex || !isOutOfRange(index)) return;
+		if (virtualItems.some(item => item.index === index)) return;
+
+		const item = toVirtualItem(s.items[index], index);
+		if (index < firstItemIndex) virtualItems.unshift(item);
+		else virtualItems.push(item);
+	};
+	// The active item has to stay mounted, otherwise it would lose the focus
+	const { activeIndex } = s;
+	if (keyboardNavigation) keepMounted(activeIndex);
+	if (drag) keepMounted(drag.index);
+
+	if (isStickyOutOfRange) virtualItems.unshift(toVirtualItem(s.items[stickyIndex], stickyIndex));
+
+	s.transition?.exiting.forEach(({ data, offset, columnIndex }) => virtualItems.push({
+		data,
+		index: -1,
+		offset,
+		columnIndex,
+		isSticky: false,
+		isMeasured: true,
+		isActive: false,
+		isDragging: false,
+		isExiting: true,
+	}));
+
+	return {
+		rootRef,
+		virtualItems,
+		totalSize: s.listHeight,
+		columnCount: cols,
+		pendingLoads,
+		activeIndex,
+		navigationProps,
+		dragHandlers,
+		measureRef,
+		measureItem: handleItemMeasure,
+		handle,
+	};
+}
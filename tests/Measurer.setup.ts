@@ -0,0 +1,11 @@
+import { vi } from 'vitest';
+
+import type * as measurer from '../src/measurer.ts';
+
+import fakeMeasurer from './fakeMeasurer.ts';
+
+// happy-dom has no layout, so the lists measure the expected sizes of the items by default
+vi.mock('../src/measurer.ts', async importOriginal => ({
+	...await importOriginal<typeof measurer>(),
+	getDefaultMeasurer: () => fakeMeasurer,
+}));
@@ -0,0 +1,33 @@
+import type { TMeasurer } from '../src/measurer.ts';
+
+/**
+ * Reports the `data-expected-height` and `data-expected-width` of the elements, as happy-dom has no layout.
+ *
+ * The changed attributes are reported through a `MutationObserver`, which runs on the real timers of happy-dom.
+ */
+const fakeMeasurer: TMeasurer = {
+	observe: (element, orientation, listener) => {
+		let lastSize: string | undefined;
+		const report = () => {
+			const { expectedHeight, expectedWidth = expectedHeight } = element.dataset;
+			const size = orientation === 'horizontal' ? expectedWidth : expectedHeight;
+			if (!size) throw new Error('no expected size');
+			if (size === lastSize) return;
+
+			lastSize = size;
+			listener(parseInt(size, 10));
+		};
+
+		report();
+		const observer = new MutationObserver(report);
+		observer.observe(element, {
+			attributes: true,
+			childList: true,
+			characterData: true,
+			subtree: true,
+		});
+		return () => observer.disconnect();
+	},
+};
+
+export default fakeMeasurer;
@@ -13,7 +13,7 @@ export default defineConfig({
 		environment: 'happy-dom',
 		setupFiles: [
 			'./tests/ReactTestingLibrary.setup.ts',
-			'./tests/ResizeObserver.setup.ts',
+			'./tests/Measurer.setup.ts',
 			'./tests/SchedulerMock.setup.ts',
 		],
 	},